@@ -1,18 +1,17 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { AppMode } from './types';
 import VeoStudio from './components/VeoStudio';
 import LiveConversation from './components/LiveConversation';
+import LiveInterpreter from './components/LiveInterpreter';
+import ApiKeyMenu from './components/ApiKeyMenu';
+import UsageDashboard from './components/UsageDashboard';
+import { getProvider } from './services';
+import { Route, useRoute } from './utils/router';
 
 const App: React.FC = () => {
-  const [activeMode, setActiveMode] = useState<AppMode>(AppMode.VEO_STUDIO);
-
-  const requestApiKey = async () => {
-    if (window.aistudio?.openSelectKey) {
-       await window.aistudio.openSelectKey();
-    } else {
-        alert("API Key selection is handled by the embedding environment. If you are running this locally, ensure process.env.API_KEY is set.");
-    }
-  };
+  const [route, navigate] = useRoute();
+  const activeMode = route.mode;
+  const setActiveMode = (mode: AppMode) => navigate({ mode } as Route);
 
   return (
     <div className="min-h-screen bg-[#09090b] text-slate-100 font-sans selection:bg-purple-500/30">
@@ -26,6 +25,11 @@ const App: React.FC = () => {
               </svg>
             </div>
             <span className="font-bold text-xl tracking-tight">Gemini Fusion</span>
+            {getProvider().name === 'mock' && (
+              <span className="px-2 py-0.5 rounded-full text-[10px] font-mono uppercase tracking-wider bg-amber-500/20 text-amber-300 border border-amber-500/30">
+                Mock backend
+              </span>
+            )}
           </div>
 
           <nav className="flex items-center space-x-1 bg-white/5 p-1 rounded-full border border-white/10">
@@ -49,29 +53,58 @@ const App: React.FC = () => {
             >
               Live Chat
             </button>
+            <button
+              onClick={() => setActiveMode(AppMode.INTERPRETER)}
+              className={`px-4 py-1.5 rounded-full text-sm font-medium transition-all ${
+                activeMode === AppMode.INTERPRETER
+                  ? 'bg-amber-500/20 text-amber-300 shadow-sm'
+                  : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              Interpreter
+            </button>
+            <button
+              onClick={() => setActiveMode(AppMode.USAGE)}
+              className={`px-4 py-1.5 rounded-full text-sm font-medium transition-all ${
+                activeMode === AppMode.USAGE
+                  ? 'bg-emerald-500/20 text-emerald-300 shadow-sm'
+                  : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              Usage
+            </button>
           </nav>
 
-          <button 
-            onClick={requestApiKey}
-            className="hidden md:flex items-center space-x-2 text-xs font-medium text-gray-400 hover:text-white transition-colors border border-white/10 px-3 py-1.5 rounded-lg hover:bg-white/5"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
-            </svg>
-            <span>API Key</span>
-          </button>
+          {/* The mock backend needs no key */}
+          {getProvider().name === 'mock' ? <div className="hidden md:block w-24" /> : <ApiKeyMenu />}
         </div>
       </header>
 
       {/* Main Content */}
       <main className="pt-24 pb-12 px-4 max-w-7xl mx-auto min-h-[calc(100vh-64px)]">
-        {activeMode === AppMode.VEO_STUDIO ? (
+        {route.mode === AppMode.VEO_STUDIO ? (
+          <div className="animate-fade-in">
+             <VeoStudio
+               generationId={route.generationId}
+               sharedSettings={route.settings}
+               onNavigate={navigate}
+             />
+          </div>
+        ) : route.mode === AppMode.LIVE_CONVERSATION ? (
+          <div className="animate-fade-in">
+             <LiveConversation
+               conversationId={route.conversationId}
+               sharedSettings={route.settings}
+               onNavigate={navigate}
+             />
+          </div>
+        ) : route.mode === AppMode.INTERPRETER ? (
           <div className="animate-fade-in">
-             <VeoStudio />
+             <LiveInterpreter conversationId={route.conversationId} onNavigate={navigate} />
           </div>
         ) : (
           <div className="animate-fade-in">
-             <LiveConversation />
+             <UsageDashboard />
           </div>
         )}
       </main>
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import {
+  clearStoredApiKey,
+  isUsingLiveTokens,
+  KeyStatus,
+  selectAiStudioKey,
+  setStoredApiKey,
+  setUsingLiveTokens,
+  subscribeKeyStatus,
+} from '../services/credentials';
+
+const SOURCE_LABELS: Record<KeyStatus['source'], string> = {
+  stored: 'Saved in this browser',
+  environment: 'From the environment',
+  aistudio: 'AI Studio',
+  none: 'No key',
+};
+
+const statusDot = (status: KeyStatus) => {
+  if (status.isRejected) return 'bg-red-400';
+  return status.hasKey ? 'bg-emerald-400' : 'bg-amber-400';
+};
+
+const statusText = (status: KeyStatus) => {
+  if (status.isRejected) return 'The API rejected the current key.';
+  if (!status.hasKey) return status.source === 'aistudio' ? 'No key selected in AI Studio yet.' : 'Add a Gemini API key to use Veo and Live.';
+  return `${SOURCE_LABELS[status.source]}${status.maskedKey ? ` • ${status.maskedKey}` : ''}`;
+};
+
+/**
+ * Header button showing where the API key comes from and whether it works,
+ * with a menu to enter, clear or re-select one.
+ */
+const ApiKeyMenu: React.FC = () => {
+  const [status, setStatus] = useState<KeyStatus | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [draftKey, setDraftKey] = useState('');
+  const [useLiveTokens, setUseLiveTokens] = useState(isUsingLiveTokens);
+
+  useEffect(() => subscribeKeyStatus(setStatus), []);
+
+  if (!status) return null;
+
+  const saveKey = () => {
+    if (!draftKey.trim()) return;
+    setStoredApiKey(draftKey);
+    setDraftKey('');
+  };
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 text-xs font-medium text-gray-400 hover:text-white transition-colors border border-white/10 px-3 py-1.5 rounded-lg hover:bg-white/5"
+        title={statusText(status)}
+      >
+        <span className={`w-2 h-2 rounded-full ${statusDot(status)}`} />
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+        </svg>
+        <span className="hidden sm:inline">API Key</span>
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Clicking anywhere else closes the menu */}
+          <div className="fixed inset-0" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] p-4 space-y-4 rounded-xl border border-white/10 bg-[#111113] shadow-2xl text-xs">
+            <div className="flex items-start gap-2">
+              <span className={`mt-1 w-2 h-2 shrink-0 rounded-full ${statusDot(status)}`} />
+              <p className="text-gray-300">{statusText(status)}</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-gray-400">Use your own key</label>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={draftKey}
+                  onChange={(e) => setDraftKey(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveKey()}
+                  placeholder="Paste a Gemini API key"
+                  autoComplete="off"
+                  className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-white focus:outline-none focus:border-purple-500"
+                />
+                <button
+                  onClick={saveKey}
+                  disabled={!draftKey.trim()}
+                  className="px-3 rounded-lg bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-40"
+                >
+                  Save
+                </button>
+              </div>
+              <p className="text-[11px] text-gray-500">Saved keys stay in this browser's local storage and override the environment's key.</p>
+              {status.source === 'stored' && (
+                <button onClick={clearStoredApiKey} className="text-red-300 hover:text-red-200">Remove saved key</button>
+              )}
+            </div>
+
+            {window.aistudio?.openSelectKey && (
+              <button
+                onClick={() => { selectAiStudioKey(); setIsOpen(false); }}
+                className="w-full py-1.5 rounded-lg border border-white/10 text-gray-300 hover:bg-white/5"
+              >
+                Select a key in AI Studio
+              </button>
+            )}
+
+            <label className="flex items-start gap-2 text-gray-400">
+              <input
+                type="checkbox"
+                checked={useLiveTokens}
+                onChange={(e) => {
+                  setUsingLiveTokens(e.target.checked);
+                  setUseLiveTokens(e.target.checked);
+                }}
+                className="mt-0.5 accent-purple-500"
+              />
+              <span>
+                Connect Live with ephemeral tokens
+                <span className="block text-[11px] text-gray-500">Each session gets a single-use token instead of sending the key over the socket.</span>
+              </span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeyMenu;
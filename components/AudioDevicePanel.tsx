@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AUDIO_PROCESSING_LABELS,
+  AudioDeviceLists,
+  AudioDeviceSettings,
+  AudioProcessingOptions,
+  canSelectOutput,
+  deviceLabel,
+  MicTest,
+  playTestTone,
+  startMicTest,
+} from '../utils/audioDevices';
+import { LevelMeter } from './MicInputPanel';
+
+interface AudioDevicePanelProps {
+  devices: AudioDeviceLists;
+  settings: AudioDeviceSettings;
+  isConnected: boolean;
+  onChange: (settings: AudioDeviceSettings) => void;
+  // Device names only become readable once the microphone has been allowed
+  onPermissionGranted: () => void;
+}
+
+const PROCESSING_OPTIONS = Object.keys(AUDIO_PROCESSING_LABELS) as (keyof AudioProcessingOptions)[];
+
+// Changes made during a session are applied to it straight away
+const AudioDevicePanel: React.FC<AudioDevicePanelProps> = ({ devices, settings, isConnected, onChange, onPermissionGranted }) => {
+  const [isTesting, setIsTesting] = useState(false);
+  const [micTest, setMicTest] = useState<MicTest | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const outputSelectable = canSelectOutput();
+
+  // The session has the mic once it starts; its own meter takes over
+  useEffect(() => {
+    if (isConnected) setIsTesting(false);
+  }, [isConnected]);
+
+  // Reopened whenever the settings change, so the meter reflects each toggle
+  useEffect(() => {
+    if (!isTesting) return;
+    let test: MicTest | null = null;
+    let cancelled = false;
+    setTestError(null);
+    startMicTest(settings)
+      .then(started => {
+        if (cancelled) {
+          started.stop();
+          return;
+        }
+        test = started;
+        setMicTest(started);
+        onPermissionGranted();
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error(err);
+        setTestError(err?.name === 'NotAllowedError' ? 'Microphone access was denied.' : err?.message || 'Failed to open the microphone');
+        setIsTesting(false);
+      });
+    return () => {
+      cancelled = true;
+      test?.stop();
+      setMicTest(null);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isTesting, settings]);
+
+  const updateProcessing = (key: keyof AudioProcessingOptions, value: boolean) =>
+    onChange({ ...settings, processing: { ...settings.processing, [key]: value } });
+
+  return (
+    <div className="w-full rounded-xl border border-gray-800 bg-gray-900/40 p-3 space-y-3 text-xs text-gray-400">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="block">Microphone</span>
+          <select
+            value={settings.inputDeviceId}
+            onChange={(e) => onChange({ ...settings, inputDeviceId: e.target.value })}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200"
+          >
+            <option value="">System default</option>
+            {devices.inputs.map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+            ))}
+            {settings.inputDeviceId && !devices.inputs.some(device => device.deviceId === settings.inputDeviceId) && (
+              <option value={settings.inputDeviceId}>Unplugged microphone</option>
+            )}
+          </select>
+        </label>
+        <label className="space-y-1" title={outputSelectable ? undefined : "This browser always plays through the system default"}>
+          <span className="block">Speaker</span>
+          <select
+            value={outputSelectable ? settings.outputDeviceId : ''}
+            onChange={(e) => onChange({ ...settings, outputDeviceId: e.target.value })}
+            disabled={!outputSelectable}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 disabled:opacity-50"
+          >
+            <option value="">System default</option>
+            {devices.outputs.map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+            ))}
+            {settings.outputDeviceId && !devices.outputs.some(device => device.deviceId === settings.outputDeviceId) && (
+              <option value={settings.outputDeviceId}>Unplugged speaker</option>
+            )}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        {PROCESSING_OPTIONS.map(key => (
+          <label key={key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.processing[key]}
+              onChange={(e) => updateProcessing(key, e.target.checked)}
+            />
+            {AUDIO_PROCESSING_LABELS[key]}
+          </label>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => setIsTesting(!isTesting)}
+            disabled={isConnected}
+            className={`px-3 py-1 rounded-full border transition-colors disabled:opacity-40 ${
+              isTesting ? 'border-green-400 bg-green-500/20 text-green-200' : 'border-gray-700 text-gray-300 hover:bg-gray-800'
+            }`}
+          >
+            {isTesting ? 'Stop test' : 'Test mic'}
+          </button>
+          <button
+            onClick={() => playTestTone(outputSelectable ? settings.outputDeviceId : '').catch(err => console.error(err))}
+            className="px-3 py-1 rounded-full border border-gray-700 text-gray-300 hover:bg-gray-800"
+          >
+            Test speaker
+          </button>
+        </div>
+      </div>
+
+      {micTest && (
+        <div className="space-y-1">
+          <LevelMeter getLevelDb={micTest.getLevelDb} isOpen />
+          <span className="block font-mono text-gray-500">{micTest.deviceLabel || 'Microphone'} • speak to see the level</span>
+        </div>
+      )}
+      {testError && <span className="block text-red-300">{testError}</span>}
+    </div>
+  );
+};
+
+export default AudioDevicePanel;
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchCell, GenerationRecord, VeoBatch } from '../types';
+import { batchVideoKey } from '../utils/batchStore';
+import { useObjectUrl } from '../utils/useObjectUrl';
+
+interface BatchComparisonGridProps {
+  batch: VeoBatch;
+  records: GenerationRecord[];
+  onToggleFavorite: (key: string) => void;
+  onSelect: (generationId: string) => void;
+}
+
+// Followers further than this from the leader get snapped back to it
+const MAX_DRIFT_SECONDS = 0.15;
+
+const recordVideos = (record: GenerationRecord | undefined): Blob[] =>
+  record?.videoBlobs ?? (record?.videoBlob ? [record.videoBlob] : []);
+
+const cellLabel = (batch: VeoBatch, cell: BatchCell) =>
+  [
+    batch.prompts.length > 1 ? `P${cell.promptIndex + 1}` : null,
+    cell.imageIndex !== null && batch.images.length > 1 ? `Img ${cell.imageIndex + 1}` : null,
+    batch.aspectRatios.length > 1 ? cell.aspectRatio : null,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+interface TileProps {
+  blob: Blob;
+  label: string;
+  isFavorite: boolean;
+  isPortrait: boolean;
+  register: (element: HTMLVideoElement | null) => void;
+  onToggleFavorite: () => void;
+  onSelect: () => void;
+}
+
+const VideoTile: React.FC<TileProps> = ({ blob, label, isFavorite, isPortrait, register, onToggleFavorite, onSelect }) => {
+  const url = useObjectUrl(blob);
+  return (
+    <div className={`rounded-lg border overflow-hidden bg-black ${isFavorite ? 'border-amber-400' : 'border-gray-800'}`}>
+      <div className={`relative ${isPortrait ? 'aspect-[9/16]' : 'aspect-video'}`}>
+        {url && <video ref={register} src={url} muted playsInline preload="auto" className="w-full h-full object-contain" />}
+      </div>
+      <div className="flex items-center justify-between gap-2 px-2 py-1.5 bg-gray-900 text-[11px]">
+        <button onClick={onSelect} className="truncate text-gray-400 hover:text-white" title="Open in the player">
+          {label || 'Open'}
+        </button>
+        <button
+          onClick={onToggleFavorite}
+          className={isFavorite ? 'text-amber-300' : 'text-gray-500 hover:text-amber-200'}
+          title={isFavorite ? 'Remove from favorites' : 'Mark as favorite'}
+        >
+          {isFavorite ? '★' : '☆'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CellStatus: React.FC<{ record: GenerationRecord | undefined; label: string; isPortrait: boolean }> = ({ record, label, isPortrait }) => (
+  <div className="rounded-lg border border-gray-800 overflow-hidden bg-gray-900/60">
+    <div className={`flex flex-col items-center justify-center p-3 text-center ${isPortrait ? 'aspect-[9/16]' : 'aspect-video'}`}>
+      {!record ? (
+        <span className="text-xs text-gray-500">Removed from the library</span>
+      ) : record.status === 'failed' ? (
+        <span className="text-xs text-red-300">{record.error}</span>
+      ) : record.status === 'cancelled' ? (
+        <span className="text-xs text-gray-500">Cancelled</span>
+      ) : (
+        <>
+          {record.status !== 'queued' && <div className="w-6 h-6 border-2 border-purple-500 border-t-transparent rounded-full animate-spin mb-2"></div>}
+          <span className="text-xs text-gray-400">{record.statusMessage}</span>
+        </>
+      )}
+    </div>
+    <div className="px-2 py-1.5 bg-gray-900 text-[11px] text-gray-500 truncate">{label || '—'}</div>
+  </div>
+);
+
+/**
+ * Every finished video of a batch in one grid. Playback is driven from a
+ * single set of controls and the first video acts as the clock, so all clips
+ * stay on the same frame for side-by-side comparison.
+ */
+const BatchComparisonGrid: React.FC<BatchComparisonGridProps> = ({ batch, records, onToggleFavorite, onSelect }) => {
+  const videosRef = useRef(new Map<string, HTMLVideoElement>());
+  // Ref callbacks have to stay stable, or React would detach and re-attach every video on each render
+  const registersRef = useRef(new Map<string, (element: HTMLVideoElement | null) => void>());
+  const isPlayingRef = useRef(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
+  const recordsById = new Map<string, GenerationRecord>(records.map(record => [record.id, record]));
+  const done = batch.cells.filter(cell => recordVideos(recordsById.get(cell.generationId)).length > 0).length;
+  const failed = batch.cells.filter(cell => recordsById.get(cell.generationId)?.status === 'failed').length;
+
+  const leader = () => videosRef.current.values().next().value as HTMLVideoElement | undefined;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const clock = leader();
+      if (clock) {
+        const now = clock.currentTime;
+        videosRef.current.forEach(video => {
+          if (video === clock) return;
+          const target = video.duration ? now % video.duration : now;
+          if (Math.abs(video.currentTime - target) > MAX_DRIFT_SECONDS) video.currentTime = target;
+        });
+        setTime(now);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const register = (key: string) => {
+    let callback = registersRef.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLVideoElement | null) => {
+        if (element) {
+          element.loop = true;
+          element.onloadedmetadata = () => setDuration(prev => Math.max(prev, element.duration || 0));
+          videosRef.current.set(key, element);
+          // Late arrivals join the others where they are
+          const clock = leader();
+          if (clock && clock !== element) element.currentTime = clock.currentTime;
+          if (isPlayingRef.current) element.play().catch(() => {});
+        } else {
+          videosRef.current.get(key)?.pause();
+          videosRef.current.delete(key);
+        }
+      };
+      registersRef.current.set(key, callback);
+    }
+    return callback;
+  };
+
+  const togglePlay = () => {
+    const videos = [...videosRef.current.values()];
+    if (isPlaying) {
+      videos.forEach(video => video.pause());
+    } else {
+      videos.forEach(video => video.play().catch(() => {}));
+    }
+    isPlayingRef.current = !isPlaying;
+    setIsPlaying(!isPlaying);
+  };
+
+  const seek = (seconds: number) => {
+    videosRef.current.forEach(video => {
+      video.currentTime = video.duration ? Math.min(seconds, video.duration) : seconds;
+    });
+    setTime(seconds);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <button
+          onClick={togglePlay}
+          disabled={done === 0}
+          className="px-3 py-1.5 rounded-lg bg-purple-600/30 border border-purple-500/50 text-purple-200 hover:bg-purple-600/40 disabled:opacity-40"
+        >
+          {isPlaying ? 'Pause all' : 'Play all'}
+        </button>
+        <button onClick={() => seek(0)} disabled={done === 0} className="text-gray-400 hover:text-white disabled:opacity-40">
+          Restart
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 1}
+          step={0.01}
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 min-w-[120px] accent-purple-500"
+        />
+        <span className="font-mono text-gray-500">{time.toFixed(1)}s</span>
+        <label className="flex items-center gap-1.5 text-gray-400">
+          <input type="checkbox" checked={favoritesOnly} onChange={(e) => setFavoritesOnly(e.target.checked)} className="accent-amber-400" />
+          Favorites only
+        </label>
+        <span className="text-gray-500">
+          {done}/{batch.cells.length} done{failed > 0 ? ` • ${failed} failed` : ''}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3">
+        {batch.cells.flatMap(cell => {
+          const record = recordsById.get(cell.generationId);
+          const label = cellLabel(batch, cell);
+          const isPortrait = cell.aspectRatio === '9:16';
+          const videos = recordVideos(record);
+
+          if (videos.length === 0) {
+            if (favoritesOnly) return [];
+            return [<CellStatus key={cell.generationId} record={record} label={label} isPortrait={isPortrait} />];
+          }
+          return videos.flatMap((blob, index) => {
+            const key = batchVideoKey(cell.generationId, index);
+            const isFavorite = batch.favorites.includes(key);
+            if (favoritesOnly && !isFavorite) return [];
+            return [
+              <VideoTile
+                key={key}
+                blob={blob}
+                label={videos.length > 1 ? `${label}${label ? ' • ' : ''}#${index + 1}` : label}
+                isFavorite={isFavorite}
+                isPortrait={isPortrait}
+                register={register(key)}
+                onToggleFavorite={() => onToggleFavorite(key)}
+                onSelect={() => onSelect(cell.generationId)}
+              />,
+            ];
+          });
+        })}
+      </div>
+
+      {batch.prompts.length > 1 && (
+        <ol className="space-y-1 text-[11px] text-gray-500">
+          {batch.prompts.map((prompt, index) => (
+            <li key={index}><span className="text-gray-400">P{index + 1}</span> {prompt}</li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default BatchComparisonGrid;
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { AspectRatio, GenerationRecord, VeoBatch } from '../types';
+import {
+  BatchDraft,
+  countBatchRequests,
+  deleteBatch,
+  estimateBatchCost,
+  getBatchMaxVideos,
+  listBatches,
+  queueBatch,
+  toggleBatchFavorite,
+  validateBatchDraft,
+} from '../utils/batchStore';
+import { generationQueue, MAX_CONCURRENT_JOBS } from '../utils/generationQueue';
+import { confirmWithinBudget, formatUsd } from '../utils/usageStore';
+import { useObjectUrl } from '../utils/useObjectUrl';
+import BatchComparisonGrid from './BatchComparisonGrid';
+import ImageInput from './ImageInput';
+
+interface BatchPanelProps {
+  records: GenerationRecord[];
+  // The single-generation draft seeds a new batch
+  initialPrompt: string;
+  initialImage: Blob | null;
+  initialAspectRatio: AspectRatio;
+  onSelect: (generationId: string) => void;
+}
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16'];
+
+const Thumbnail: React.FC<{ image: Blob; index: number; onRemove: () => void }> = ({ image, index, onRemove }) => {
+  const url = useObjectUrl(image);
+  return (
+    <div className="relative rounded-lg overflow-hidden border border-gray-700 bg-black aspect-video">
+      {url && <img src={url} alt={`Image ${index + 1}`} className="w-full h-full object-cover" />}
+      <span className="absolute top-1 left-1 px-1 rounded bg-black/70 text-[10px] text-gray-300">Img {index + 1}</span>
+      <button onClick={onRemove} className="absolute top-1 right-1 px-1 rounded bg-black/70 text-[10px] text-gray-300 hover:text-red-300">
+        Remove
+      </button>
+    </div>
+  );
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ records, initialPrompt, initialImage, initialAspectRatio, onSelect }) => {
+  const [promptsText, setPromptsText] = useState(initialPrompt);
+  const [images, setImages] = useState<Blob[]>(initialImage ? [initialImage] : []);
+  const [aspectRatios, setAspectRatios] = useState<AspectRatio[]>([initialAspectRatio]);
+  const [videosPerRequest, setVideosPerRequest] = useState(1);
+  const [concurrency, setConcurrency] = useState(generationQueue.getConcurrency());
+  const [batches, setBatches] = useState<VeoBatch[]>([]);
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const draft: BatchDraft = { prompts: promptsText.split('\n'), images, aspectRatios, videosPerRequest };
+  const draftError = validateBatchDraft(draft);
+  const maxVideos = getBatchMaxVideos(draft);
+  const requestCount = countBatchRequests(draft);
+  const selectedBatch = batches.find(batch => batch.id === selectedBatchId) ?? null;
+
+  useEffect(() => {
+    listBatches()
+      .then(stored => {
+        setBatches(stored);
+        setSelectedBatchId(prev => prev ?? stored[0]?.id ?? null);
+      })
+      .catch(err => console.error(err));
+  }, []);
+
+  const toggleAspectRatio = (value: AspectRatio) => {
+    // Keep the canonical order so the grid lays out the same way every time
+    setAspectRatios(prev => ASPECT_RATIOS.filter(ratio => (ratio === value) !== prev.includes(ratio)));
+  };
+
+  const changeConcurrency = (value: number) => {
+    generationQueue.setConcurrency(value);
+    setConcurrency(generationQueue.getConcurrency());
+  };
+
+  const start = async () => {
+    setError(null);
+    if (!draftError && !(await confirmWithinBudget(estimateBatchCost(draft)))) return;
+    setIsQueueing(true);
+    try {
+      const batch = await queueBatch(draft);
+      setBatches(prev => [batch, ...prev]);
+      setSelectedBatchId(batch.id);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Couldn't queue the batch.");
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const toggleFavorite = async (key: string) => {
+    if (!selectedBatch) return;
+    try {
+      const next = await toggleBatchFavorite(selectedBatch, key);
+      setBatches(prev => prev.map(batch => batch.id === next.id ? next : batch));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const removeBatch = (id: string) => {
+    deleteBatch(id)
+      .then(() => {
+        setBatches(prev => prev.filter(batch => batch.id !== id));
+        setSelectedBatchId(null);
+      })
+      .catch(err => console.error(err));
+  };
+
+  return (
+    <div className="space-y-6 bg-gray-900/50 p-6 rounded-2xl border border-gray-800">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">Prompts (one per line)</label>
+          <textarea
+            value={promptsText}
+            onChange={(e) => setPromptsText(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none h-32"
+            placeholder={'A slow dolly in on the subject\nA fast orbit around the subject'}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">Images (optional)</label>
+          <div className="grid grid-cols-3 gap-2">
+            {images.map((image, index) => (
+              <Thumbnail key={index} image={image} index={index} onRemove={() => setImages(prev => prev.filter((_, i) => i !== index))} />
+            ))}
+          </div>
+          {images.length === 0 && <p className="text-[11px] text-gray-500">Without images every prompt runs as text to video.</p>}
+          <ImageInput
+            label="Add image"
+            compact
+            image={null}
+            aspectRatio={aspectRatios[0] ?? initialAspectRatio}
+            onChange={file => setImages(prev => [...prev, file])}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6 text-sm">
+        <div className="space-y-1">
+          <span className="block text-xs text-gray-400">Aspect ratios</span>
+          <div className="flex gap-2">
+            {ASPECT_RATIOS.map(ratio => (
+              <button
+                key={ratio}
+                onClick={() => toggleAspectRatio(ratio)}
+                className={`px-3 py-1.5 rounded-lg border text-xs font-medium ${aspectRatios.includes(ratio) ? 'bg-purple-600/20 border-purple-500 text-purple-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+              >
+                {ratio}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-400">Videos per request</span>
+          <select
+            value={videosPerRequest}
+            onChange={(e) => setVideosPerRequest(Number(e.target.value))}
+            disabled={maxVideos === 1}
+            title={maxVideos === 1 ? 'Veo returns one video per request' : undefined}
+            className="bg-gray-800 border border-gray-700 rounded-lg p-1.5 text-xs text-gray-300 focus:outline-none disabled:opacity-50"
+          >
+            {Array.from({ length: maxVideos }, (_, i) => i + 1).map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-400">Run at once</span>
+          <select
+            value={concurrency}
+            onChange={(e) => changeConcurrency(Number(e.target.value))}
+            className="bg-gray-800 border border-gray-700 rounded-lg p-1.5 text-xs text-gray-300 focus:outline-none"
+          >
+            {Array.from({ length: MAX_CONCURRENT_JOBS }, (_, i) => i + 1).map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+        <div className="flex-1" />
+        <div className="text-right space-y-1">
+          <button
+            onClick={start}
+            disabled={!!draftError || isQueueing}
+            title={draftError ?? undefined}
+            className="px-5 py-2 rounded-xl font-semibold bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-500 hover:to-indigo-500 disabled:from-gray-700 disabled:to-gray-700 disabled:text-gray-500"
+          >
+            {isQueueing ? 'Queueing…' : `Queue ${requestCount} request${requestCount === 1 ? '' : 's'}`}
+          </button>
+          <p className="text-[11px] text-gray-500">
+            {draftError ?? `${requestCount * videosPerRequest} video${requestCount * videosPerRequest === 1 ? '' : 's'} in total • about ${formatUsd(estimateBatchCost(draft))}`}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">{error}</div>
+      )}
+
+      {batches.length > 0 && (
+        <div className="space-y-4 border-t border-gray-800 pt-4">
+          <div className="flex items-center gap-3">
+            <select
+              value={selectedBatchId ?? ''}
+              onChange={(e) => setSelectedBatchId(e.target.value || null)}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-lg p-1.5 text-xs text-gray-300 focus:outline-none"
+            >
+              <option value="">Choose a batch…</option>
+              {batches.map(batch => (
+                <option key={batch.id} value={batch.id}>
+                  {new Date(batch.createdAt).toLocaleString()} • {batch.cells.length} requests • {batch.favorites.length} favorites
+                </option>
+              ))}
+            </select>
+            {selectedBatch && (
+              <button onClick={() => removeBatch(selectedBatch.id)} className="text-xs text-gray-500 hover:text-red-300">
+                Delete batch
+              </button>
+            )}
+          </div>
+          {selectedBatch && (
+            <BatchComparisonGrid
+              key={selectedBatch.id}
+              batch={selectedBatch}
+              records={records}
+              onToggleFavorite={toggleFavorite}
+              onSelect={onSelect}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { ConversationRecord, LanguagePair } from '../types';
+import { BilingualFormat, downloadBilingualTranscript, languageLabel, textIn, toExchanges } from '../utils/interpreter';
+
+interface BilingualTranscriptProps {
+  conversation: ConversationRecord;
+  languages: LanguagePair;
+  isLive: boolean;
+  onClose?: () => void;
+}
+
+const EXPORT_FORMATS: { format: BilingualFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'csv', label: 'CSV' },
+];
+
+// One row per exchange: the original under the language it was spoken in, the translation beside it
+const BilingualTranscript: React.FC<BilingualTranscriptProps> = ({ conversation, languages, isLive, onClose }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const exchanges = toExchanges(conversation.turns, languages);
+
+  useEffect(() => {
+    if (isLive && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [conversation.turns, isLive]);
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-gray-600 uppercase tracking-widest">
+          {isLive ? 'Live Transcript' : `Transcript • ${new Date(conversation.startedAt).toLocaleString()}`}
+        </h3>
+        <div className="flex items-center gap-1 text-[11px]">
+          {exchanges.length > 0 && EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => downloadBilingualTranscript({ ...conversation, languages }, format)}
+              className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800"
+            >
+              {label}
+            </button>
+          ))}
+          {!isLive && onClose && (
+            <button onClick={onClose} className="ml-1 px-2 py-0.5 text-gray-500 hover:text-white">Close</button>
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3 px-3 pb-1 text-[11px] font-mono text-gray-500">
+        <span>{languageLabel(languages.source)}</span>
+        <span>{languageLabel(languages.target)}</span>
+      </div>
+      <div ref={scrollRef} className="bg-black/30 rounded-lg p-3 h-72 overflow-y-auto border border-gray-800 space-y-2">
+        {exchanges.length === 0 && (
+          <span className="text-xs text-gray-500 opacity-70">
+            {isLive ? 'Start talking in either language — each turn and its translation will appear here.' : 'Nothing was said in this session.'}
+          </span>
+        )}
+        {exchanges.map(exchange => (
+          <div key={exchange.id} className="grid grid-cols-2 gap-3">
+            {[languages.source, languages.target].map(language => {
+              const isOriginal = exchange.language === language;
+              const text = textIn(exchange, language);
+              const turn = isOriginal ? exchange.original : exchange.translation;
+              return (
+                <div
+                  key={language}
+                  className={`rounded-xl px-3 py-2 text-sm ${
+                    isOriginal ? 'bg-amber-500/10 text-amber-50' : 'bg-gray-800/60 text-gray-300 italic'
+                  } ${turn && !turn.isFinal ? 'opacity-80' : ''}`}
+                >
+                  <p className="whitespace-pre-wrap">{text || (isOriginal ? '' : '…')}</p>
+                  {isOriginal && (
+                    <span className="block mt-1 text-[10px] text-gray-500 font-mono not-italic">
+                      Spoken • {new Date(exchange.original.startedAt).toLocaleTimeString()}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BilingualTranscript;
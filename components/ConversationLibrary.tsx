@@ -0,0 +1,52 @@
+import React from 'react';
+import { ConversationRecord } from '../types';
+
+interface ConversationLibraryProps {
+  conversations: ConversationRecord[];
+  selectedId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDuration = (conversation: ConversationRecord) => {
+  if (!conversation.endedAt) return 'in progress';
+  const seconds = Math.round((conversation.endedAt - conversation.startedAt) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const ConversationLibrary: React.FC<ConversationLibraryProps> = ({ conversations, selectedId, onOpen, onDelete }) => {
+  if (conversations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full">
+      <h3 className="text-xs font-bold text-gray-600 uppercase tracking-widest mb-2">Past Conversations</h3>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {conversations.map(conversation => {
+          const preview = conversation.turns.find(turn => turn.speaker === 'user')?.text ?? conversation.turns[0]?.text;
+          return (
+            <div
+              key={conversation.id}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border text-sm transition-colors ${
+                conversation.id === selectedId ? 'border-cyan-500/60 bg-cyan-500/5' : 'border-gray-800 hover:border-gray-700'
+              }`}
+            >
+              <button onClick={() => onOpen(conversation.id)} className="flex-1 min-w-0 text-left">
+                <span className="block text-gray-300 truncate">{preview || 'No transcript'}</span>
+                <span className="block text-[11px] text-gray-500 font-mono">
+                  {new Date(conversation.startedAt).toLocaleString()} • {formatDuration(conversation)} • {conversation.turns.length} turns
+                </span>
+              </button>
+              <button onClick={() => onDelete(conversation.id)} className="text-xs text-gray-500 hover:text-red-300">
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationLibrary;
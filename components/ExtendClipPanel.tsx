@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ExtendMethod, GenerationRecord } from '../types';
+import { getVeoExtensionBlocker } from '../utils/sequenceStore';
+
+interface ExtendClipPanelProps {
+  record: GenerationRecord;
+  onExtend: (prompt: string, method: ExtendMethod) => Promise<void>;
+}
+
+const ExtendClipPanel: React.FC<ExtendClipPanelProps> = ({ record, onExtend }) => {
+  const extensionBlocker = getVeoExtensionBlocker(record);
+  const veoExtensionAvailable = extensionBlocker === null;
+  const [prompt, setPrompt] = useState('');
+  const [method, setMethod] = useState<ExtendMethod>(veoExtensionAvailable ? 'videoExtension' : 'lastFrame');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onExtend(prompt, method);
+      setPrompt('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-3 bg-gray-900/60 border border-gray-800 rounded-2xl p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-200">Extend this clip</h4>
+        <div className="flex items-center gap-1 bg-gray-800 rounded-lg p-1 text-xs">
+          <button
+            onClick={() => setMethod('videoExtension')}
+            disabled={!veoExtensionAvailable}
+            title={extensionBlocker ?? undefined}
+            className={`px-2 py-1 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${method === 'videoExtension' ? 'bg-purple-600/30 text-purple-200' : 'text-gray-400'}`}
+          >
+            Veo extension
+          </button>
+          <button
+            onClick={() => setMethod('lastFrame')}
+            className={`px-2 py-1 rounded-md transition-colors ${method === 'lastFrame' ? 'bg-purple-600/30 text-purple-200' : 'text-gray-400'}`}
+          >
+            From final frame
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-3">
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          className="flex-1 bg-gray-800 border border-gray-700 rounded-lg p-3 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none h-16"
+          placeholder="What happens next?"
+        />
+        <button
+          onClick={submit}
+          disabled={isSubmitting || !prompt.trim()}
+          className="px-4 rounded-lg font-semibold text-sm bg-gradient-to-r from-purple-600 to-indigo-600 text-white disabled:from-gray-700 disabled:to-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Queuing...' : 'Extend'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExtendClipPanel;
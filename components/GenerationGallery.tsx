@@ -0,0 +1,130 @@
+import React from 'react';
+import { GenerationRecord } from '../types';
+import { isGenerationActive } from '../utils/generationQueue';
+import { useObjectUrl } from '../utils/useObjectUrl';
+import { GENERATION_MODE_LABELS, getConfigPreviewImage, getVeoDurationSeconds, getVeoResolution } from '../utils/veoRequest';
+
+interface GenerationGalleryProps {
+  records: GenerationRecord[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onRerun: (id: string) => void;
+  onCancel: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+interface GenerationCardProps extends Omit<GenerationGalleryProps, 'records' | 'selectedId'> {
+  record: GenerationRecord;
+  isSelected: boolean;
+}
+
+const GenerationCard: React.FC<GenerationCardProps> = ({ record, isSelected, onSelect, onRerun, onCancel, onDelete }) => {
+  const videoUrl = useObjectUrl(record.videoBlob);
+  const { config } = record;
+  const imageUrl = useObjectUrl(getConfigPreviewImage(config));
+  const isActive = isGenerationActive(record);
+
+  return (
+    <div
+      className={`group rounded-xl border overflow-hidden bg-gray-900/60 transition-colors ${
+        isSelected ? 'border-purple-500' : 'border-gray-800 hover:border-gray-600'
+      }`}
+    >
+      <button
+        onClick={() => onSelect(record.id)}
+        className={`relative block w-full bg-black ${config.aspectRatio === '9:16' ? 'aspect-[9/16] max-h-64' : 'aspect-video'}`}
+      >
+        {videoUrl ? (
+          <video src={videoUrl} muted loop playsInline preload="metadata" className="w-full h-full object-cover"
+            onMouseEnter={e => e.currentTarget.play()}
+            onMouseLeave={e => e.currentTarget.pause()}
+          />
+        ) : imageUrl ? (
+          <img src={imageUrl} alt="Source" className="w-full h-full object-cover opacity-40" />
+        ) : null}
+        {isActive && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/50">
+            <div className="w-8 h-8 border-2 border-purple-500 border-t-transparent rounded-full animate-spin mb-2"></div>
+            <span className="text-xs text-purple-200 px-2 text-center">{record.statusMessage}</span>
+          </div>
+        )}
+        {record.status === 'failed' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-red-950/60 p-2">
+            <span className="text-xs text-red-200 text-center">{record.error}</span>
+          </div>
+        )}
+        {record.status === 'cancelled' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/60 p-2">
+            <span className="text-xs text-gray-300">Cancelled</span>
+          </div>
+        )}
+      </button>
+
+      <div className="p-3 space-y-2">
+        <p className="text-xs text-gray-300 line-clamp-2" title={config.prompt}>{config.prompt || 'No prompt'}</p>
+        <div className="flex items-center justify-between text-[11px] text-gray-500">
+          <span title={config.seed !== undefined ? `Seed ${config.seed}` : undefined}>
+            {GENERATION_MODE_LABELS[config.mode]} • {config.aspectRatio} • {getVeoResolution(config)} • {getVeoDurationSeconds(config)}s
+            {(config.numberOfVideos ?? 1) > 1 ? ` • ${config.numberOfVideos} videos` : ''}
+          </span>
+          <span>{new Date(record.createdAt).toLocaleString()}</span>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          {videoUrl && (
+            <a
+              href={videoUrl}
+              download={`veo-${record.id}.mp4`}
+              className="px-2 py-1 rounded-md border border-gray-700 text-gray-300 hover:bg-gray-800"
+            >
+              Download
+            </a>
+          )}
+          {isActive ? (
+            <button
+              onClick={() => onCancel(record.id)}
+              className="px-2 py-1 rounded-md border border-gray-700 text-gray-300 hover:bg-gray-800"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={() => onRerun(record.id)}
+              className="px-2 py-1 rounded-md border border-gray-700 text-gray-300 hover:bg-gray-800"
+            >
+              Re-run
+            </button>
+          )}
+          <button
+            onClick={() => onDelete(record.id)}
+            disabled={isActive}
+            className="ml-auto px-2 py-1 rounded-md border border-red-900/60 text-red-300 hover:bg-red-900/30 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const GenerationGallery: React.FC<GenerationGalleryProps> = ({ records, selectedId, ...actions }) => {
+  if (records.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-lg font-semibold text-gray-200">Library</h3>
+        <span className="text-xs text-gray-500">{records.length} generation{records.length === 1 ? '' : 's'}</span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+        {records.map(record => (
+          <GenerationCard key={record.id} record={record} isSelected={record.id === selectedId} {...actions} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationGallery;
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import { CropRect, defaultCrop, getTargetSize, renderCrop } from '../utils/imagePreprocess';
+
+interface ImageCropperProps {
+  source: ImageBitmap;
+  aspectRatio: AspectRatio;
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+}
+
+const MAX_VIEW_WIDTH = 640;
+const MAX_VIEW_HEIGHT = 420;
+const MIN_ZOOM = 0.2;
+
+const clampCrop = (crop: CropRect, width: number, height: number): CropRect => ({
+  ...crop,
+  x: Math.min(Math.max(0, crop.x), width - crop.width),
+  y: Math.min(Math.max(0, crop.y), height - crop.height),
+});
+
+const ImageCropper: React.FC<ImageCropperProps> = ({ source, aspectRatio, onConfirm, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; crop: CropRect } | null>(null);
+  const maxCrop = defaultCrop(source.width, source.height, aspectRatio);
+  const [crop, setCrop] = useState<CropRect>(maxCrop);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Source pixels to on-screen pixels
+  const viewScale = Math.min(1, MAX_VIEW_WIDTH / source.width, MAX_VIEW_HEIGHT / source.height);
+  const zoom = crop.width / maxCrop.width;
+  const target = getTargetSize(aspectRatio);
+  const outputWidth = Math.round(Math.min(crop.width, target.width));
+  const outputHeight = Math.round((outputWidth * crop.height) / crop.width);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = Math.round(source.width * viewScale);
+    canvas.height = Math.round(source.height * viewScale);
+    canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }, [source, viewScale]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onCancel]);
+
+  const setZoom = (value: number) => {
+    setCrop(prev => {
+      const width = maxCrop.width * value;
+      const height = maxCrop.height * value;
+      // Zoom around the centre of the current selection
+      const next = { x: prev.x + (prev.width - width) / 2, y: prev.y + (prev.height - height) / 2, width, height };
+      return clampCrop(next, source.width, source.height);
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const next = {
+      ...drag.crop,
+      x: drag.crop.x + (e.clientX - drag.pointerX) / viewScale,
+      y: drag.crop.y + (e.clientY - drag.pointerY) / viewScale,
+    };
+    setCrop(clampCrop(next, source.width, source.height));
+  };
+
+  // React registers wheel listeners as passive, so this one is added directly to be allowed to stop the page scrolling
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoom(Math.min(1, Math.max(MIN_ZOOM, zoom + e.deltaY * 0.001)));
+    };
+    view.addEventListener('wheel', onWheel, { passive: false });
+    return () => view.removeEventListener('wheel', onWheel);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoom]);
+
+  const confirm = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      onConfirm(await renderCrop(source, crop, aspectRatio));
+    } catch (err: any) {
+      setError(err.message || 'Failed to crop the image.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onCancel}>
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl p-5 space-y-4 max-w-full" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-sm font-semibold text-white">Crop to {aspectRatio}</h3>
+          <span className="text-[11px] text-gray-500 font-mono">
+            {source.width}×{source.height} → {outputWidth}×{outputHeight} JPEG
+          </span>
+        </div>
+
+        <div className="relative mx-auto overflow-hidden rounded-lg select-none" style={{ width: source.width * viewScale }} ref={viewRef}>
+          <canvas ref={canvasRef} className="block" />
+          <div
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragRef.current = null; }}
+            onPointerCancel={() => { dragRef.current = null; }}
+            className="absolute border-2 border-purple-400 cursor-move touch-none"
+            style={{
+              left: crop.x * viewScale,
+              top: crop.y * viewScale,
+              width: crop.width * viewScale,
+              height: crop.height * viewScale,
+              // Dims everything outside the selection
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+            }}
+          >
+            <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 pointer-events-none">
+              {Array.from({ length: 9 }, (_, i) => <div key={i} className="border border-white/10" />)}
+            </div>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-3 text-xs text-gray-400">
+          Zoom
+          <input
+            type="range"
+            min={MIN_ZOOM}
+            max={1}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            className="flex-1 accent-purple-500"
+            // The value is the crop size, so run it right-to-left to read as "zoom in" to the right
+            style={{ direction: 'rtl' }}
+          />
+        </label>
+
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white">Cancel</button>
+          <button
+            onClick={confirm}
+            disabled={isSaving}
+            className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-sm font-medium text-white disabled:opacity-50"
+          >
+            {isSaving ? 'Cropping…' : 'Use image'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import {
+  decodeImage,
+  IMAGE_INPUT_ACCEPT,
+  imageFromClipboard,
+  matchesAspectRatio,
+  renderFullImage,
+  validateImageFile,
+} from '../utils/imagePreprocess';
+import { useObjectUrl } from '../utils/useObjectUrl';
+import ImageCropper from './ImageCropper';
+
+interface ImageInputProps {
+  label: string;
+  image: Blob | null;
+  aspectRatio: AspectRatio;
+  onChange: (file: File) => void;
+  onRemove?: () => void;
+  compact?: boolean;
+  // Also take images pasted anywhere on the page, not only while this input is focused
+  acceptsPaste?: boolean;
+  // Keep the image's own framing unless the user chooses to crop, e.g. for subject or style references
+  cropOptional?: boolean;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const ImageInput: React.FC<ImageInputProps> = ({ label, image, aspectRatio, onChange, onRemove, compact = false, acceptsPaste = false, cropOptional = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewUrl = useObjectUrl(image);
+  const [cropSource, setCropSource] = useState<ImageBitmap | null>(null);
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isMismatched = !cropOptional && !!image && !!previewSize && !matchesAspectRatio(previewSize.width, previewSize.height, aspectRatio);
+
+  // Frames go through the cropper so they match the output ratio and size
+  const openCropper = async (file: Blob) => {
+    const problem = validateImageFile(file);
+    setError(problem);
+    if (problem) return;
+    try {
+      setCropSource(await decodeImage(file));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Other images are only scaled down and re-encoded; the Crop button is still there
+  const takeImage = async (file: Blob) => {
+    if (!cropOptional) return openCropper(file);
+    const problem = validateImageFile(file);
+    setError(problem);
+    if (problem) return;
+    try {
+      const source = await decodeImage(file);
+      try {
+        onChange(await renderFullImage(source));
+      } finally {
+        source.close();
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const closeCropper = () => {
+    cropSource?.close();
+    setCropSource(null);
+  };
+
+  // The page-wide listener outlives renders, so it calls through a ref to the latest props
+  const takeImageRef = useRef(takeImage);
+  takeImageRef.current = takeImage;
+
+  useEffect(() => {
+    if (!acceptsPaste) return;
+    const onPaste = (e: ClipboardEvent) => {
+      if (e.defaultPrevented || isEditableTarget(e.target)) return;
+      const file = imageFromClipboard(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      takeImageRef.current(file);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [acceptsPaste]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      takeImage(e.target.files[0]);
+    }
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const file = imageFromClipboard(e.clipboardData);
+    if (!file) return;
+    // Keeps a page-wide paste target from taking the same image
+    e.preventDefault();
+    takeImage(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-300">{label}</label>
+        <div className="flex items-center gap-3">
+          {image && (
+            <button onClick={() => openCropper(image)} className="text-xs text-gray-500 hover:text-purple-300">Crop</button>
+          )}
+          {image && onRemove && (
+            <button onClick={onRemove} className="text-xs text-gray-500 hover:text-red-300">Remove</button>
+          )}
+        </div>
+      </div>
+      <div
+        tabIndex={0}
+        onClick={() => fileInputRef.current?.click()}
+        onPaste={handlePaste}
+        className={`border-2 border-dashed border-gray-700 hover:border-purple-500 focus:border-purple-500 focus:outline-none rounded-xl flex flex-col items-center justify-center cursor-pointer transition-colors group ${compact ? 'p-3' : 'p-8'}`}
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept={IMAGE_INPUT_ACCEPT}
+          className="hidden"
+        />
+        {previewUrl ? (
+           <div className="relative w-full aspect-video rounded-lg overflow-hidden">
+              <img
+                src={previewUrl}
+                alt="Preview"
+                onLoad={(e) => setPreviewSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="w-full h-full object-cover"
+              />
+              <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <span className="text-white text-sm font-medium">Change Image</span>
+              </div>
+           </div>
+        ) : (
+          <div className="text-center space-y-2">
+              <svg className={`${compact ? 'w-6 h-6' : 'w-10 h-10'} text-gray-500 mx-auto group-hover:text-purple-400 transition-colors`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <p className="text-sm text-gray-400">Click to upload or paste an image</p>
+          </div>
+        )}
+      </div>
+      {isMismatched && (
+        <p className="text-xs text-amber-300">
+          This image isn't {aspectRatio}.{' '}
+          <button onClick={() => openCropper(image!)} className="underline hover:text-amber-200">Crop it again</button>
+        </p>
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {cropSource && (
+        <ImageCropper
+          source={cropSource}
+          aspectRatio={aspectRatio}
+          onCancel={closeCropper}
+          onConfirm={(file) => {
+            closeCropper();
+            setError(null);
+            onChange(file);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImageInput;
@@ -1,28 +1,223 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createBlob, decodeAudioData, decode } from '../utils/audioUtils';
-
-const LiveConversation: React.FC = () => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+import { LiveServerMessage, Modality } from '@google/genai';
+import { AppMode, ConversationRecord, LivePersona, LiveRecording } from '../types';
+import { DEFAULT_MIC_CAPTURE_OPTIONS, MIC_CHUNK_SIZES_MS } from '../utils/audioCapture';
+import { deleteConversation, listConversations, saveConversation } from '../utils/conversationStore';
+import { ConversationRecorder } from '../utils/conversationRecorder';
+import { createDefaultToolRegistry } from '../utils/builtinTools';
+import {
+  DEFAULT_FRAME_CAPTURE_OPTIONS,
+  FrameCaptureOptions,
+  FrameCapturer,
+  openVideoSource,
+  VideoInputSource,
+} from '../utils/frameCapture';
+import { LiveLinkSettings, LiveRoute, NavigateOptions, useRouteSelection } from '../utils/router';
+import { DEFAULT_VAD_OPTIONS, InputMode, MicGate, MicState, VadOptions } from '../utils/micGate';
+import { deleteRecording, getRecording, saveRecording } from '../utils/recordingStore';
+import { ToolCancelledError } from '../utils/toolRegistry';
+import {
+  createPersona,
+  DEFAULT_PERSONAS,
+  deletePersona,
+  getActivePersonaId,
+  listPersonas,
+  personaToLiveConfig,
+  savePersona,
+  supportsTextReplies,
+  setActivePersonaId,
+} from '../utils/personaStore';
+import { confirmWithinBudget } from '../utils/usageStore';
+import { appendTextTurn, appendToolInvocation, appendTranscription, updateToolInvocation } from '../utils/transcript';
+import { useLiveAudioSession } from '../utils/useLiveAudioSession';
+import AudioDevicePanel from './AudioDevicePanel';
+import ConversationLibrary from './ConversationLibrary';
+import MessageComposer from './MessageComposer';
+import MicInputPanel from './MicInputPanel';
+import PersonaPanel from './PersonaPanel';
+import TranscriptPanel from './TranscriptPanel';
+import VideoInputPanel, { VideoPreview } from './VideoInputPanel';
+
+interface LiveConversationProps {
+  // Saved conversation named in the URL
+  conversationId?: string;
+  // Settings from a shared link, applied once the personas have loaded
+  sharedSettings?: LiveLinkSettings;
+  onNavigate: (route: LiveRoute, options?: NavigateOptions) => void;
+}
+
+const LiveConversation: React.FC<LiveConversationProps> = ({ conversationId, sharedSettings, onNavigate }) => {
   const [error, setError] = useState<string | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [videoSource, setVideoSource] = useState<VideoInputSource>('none');
+  const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  const [isVideoPaused, setIsVideoPaused] = useState(false);
+  const [personas, setPersonas] = useState<LivePersona[]>([]);
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string | null>(getActivePersonaId);
+  // The persona the current session was started with
+  const [sessionPersona, setSessionPersona] = useState<LivePersona | null>(null);
+  const [replyModality, setReplyModality] = useState<Modality.AUDIO | Modality.TEXT>(Modality.AUDIO);
+  const [isRecordingEnabled, setIsRecordingEnabled] = useState(false);
+  const [openedRecording, setOpenedRecording] = useState<LiveRecording | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('always-on');
+  const [vadOptions, setVadOptions] = useState<VadOptions>(DEFAULT_VAD_OPTIONS);
+  const [micState, setMicState] = useState<MicState>('streaming');
+  const [micChunkMs, setMicChunkMs] = useState(DEFAULT_MIC_CAPTURE_OPTIONS.chunkMs);
+  const [captureOptions, setCaptureOptions] = useState<FrameCaptureOptions>(DEFAULT_FRAME_CAPTURE_OPTIONS);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [...prev.slice(-4), msg]);
+  };
+
+  const session = useLiveAudioSession({ onLog: addLog, onError: setError });
+  const {
+    isConnected,
+    isSpeaking,
+    isReconnecting,
+    conversation,
+    updateConversation,
+    sessionRef,
+    analyserRef,
+    deviceSettings,
+    audioDevices,
+    updateDeviceSettings,
+    refreshAudioDevices,
+  } = session;
+  const [openedId, setOpenedId] = useRouteSelection(conversationId, id =>
+    onNavigate({ mode: AppMode.LIVE_CONVERSATION, conversationId: id }, { replace: true }),
+  );
+
+  const toolRegistryRef = useRef(createDefaultToolRegistry());
+  const micGateRef = useRef<MicGate | null>(null);
+  const recorderRef = useRef<ConversationRecorder | null>(null);
 
-  // Refs for audio processing
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const sessionRef = useRef<any>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Refs for camera / screen frames
+  const videoStreamRef = useRef<MediaStream | null>(null);
+  const frameCapturerRef = useRef<FrameCapturer | null>(null);
+  const captureOptionsRef = useRef(captureOptions);
+  const videoPausedRef = useRef(isVideoPaused);
   
+  const openedConversation = conversations.find(c => c.id === openedId) ?? null;
+  const activePersona = personas.find(p => p.id === selectedPersonaId) ?? personas[0] ?? null;
+  const canReplyInText = supportsTextReplies((activePersona ?? DEFAULT_PERSONAS[0]).model);
+
   // Visualizer ref
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number>(0);
 
-  const addLog = (msg: string) => {
-    setLogs(prev => [...prev.slice(-4), msg]);
+  const refreshConversations = () => {
+    // Interpreted sessions live in the interpreter's own library
+    listConversations()
+      .then(list => setConversations(list.filter(c => !c.languages)))
+      .catch(err => console.error(err));
+  };
+
+  const finishConversation = (finished: ConversationRecord | null) => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!finished) return;
+    const hasRecording = !!recorder?.hasAudio;
+    // Keep the transcript on screen after hanging up
+    setOpenedId(finished.turns.length > 0 || hasRecording ? finished.id : null);
+
+    const savingRecording = hasRecording
+      ? saveRecording({
+          id: finished.id,
+          createdAt: finished.startedAt,
+          durationSeconds: recorder!.durationSeconds,
+          audio: recorder!.toWav('stereo'),
+        }).catch(err => console.error("Failed to save recording", err))
+      : Promise.resolve();
+    Promise.all([saveConversation(finished), savingRecording])
+      .then(refreshConversations)
+      .catch(err => console.error("Failed to save transcript", err));
+  };
+
+  const refreshPersonas = () => {
+    return listPersonas()
+      .then(setPersonas)
+      .catch(err => console.error(err));
+  };
+
+  const selectPersona = (id: string) => {
+    setSelectedPersonaId(id);
+    setActivePersonaId(id);
+  };
+
+  const storePersonas = async (updated: LivePersona[]) => {
+    try {
+      await Promise.all(updated.map(savePersona));
+      selectPersona(updated[0].id);
+    } catch (err) {
+      console.error("Failed to save persona", err);
+    }
+    await refreshPersonas();
+  };
+
+  const removePersona = (id: string) => {
+    deletePersona(id).then(refreshPersonas).catch(err => console.error(err));
+  };
+
+  const removeConversation = (id: string) => {
+    if (id === openedId) setOpenedId(null);
+    Promise.all([deleteConversation(id), deleteRecording(id)])
+      .then(refreshConversations)
+      .catch(err => console.error(err));
+  };
+
+  const stopVideoSource = () => {
+    frameCapturerRef.current?.stop();
+    frameCapturerRef.current = null;
+    videoStreamRef.current?.getTracks().forEach(track => track.stop());
+    videoStreamRef.current = null;
+    setVideoStream(null);
+    setVideoSource('none');
+  };
+
+  const selectVideoSource = async (source: VideoInputSource) => {
+    if (source === videoSource) return;
+    stopVideoSource();
+    if (source === 'none') return;
+
+    try {
+      const stream = await openVideoSource(source);
+      videoStreamRef.current = stream;
+      // The browser's own "Stop sharing" button ends the track without telling us otherwise
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (videoStreamRef.current === stream) stopVideoSource();
+      });
+
+      const capturer = new FrameCapturer(stream, captureOptionsRef.current, (data) => {
+        sessionRef.current?.sendRealtimeInput({ video: { data, mimeType: 'image/jpeg' } });
+      });
+      capturer.setPaused(videoPausedRef.current);
+      frameCapturerRef.current = capturer;
+      await capturer.start();
+
+      setVideoStream(stream);
+      setVideoSource(source);
+      addLog(source === 'camera' ? "Camera on" : "Screen sharing on");
+    } catch (err: any) {
+      console.error(err);
+      stopVideoSource();
+      // Dismissing the picker is not an error worth surfacing
+      if (err?.name !== 'NotAllowedError') {
+        setError(err.message || "Failed to open video source");
+      }
+    }
+  };
+
+  const updateCaptureOptions = (options: FrameCaptureOptions) => {
+    captureOptionsRef.current = options;
+    setCaptureOptions(options);
+    frameCapturerRef.current?.updateOptions(options);
+  };
+
+  const setVideoPaused = (paused: boolean) => {
+    videoPausedRef.current = paused;
+    setIsVideoPaused(paused);
+    frameCapturerRef.current?.setPaused(paused);
   };
 
   const drawVisualizer = () => {
@@ -66,176 +261,193 @@ const LiveConversation: React.FC = () => {
     draw();
   };
 
-  const stopConversation = async () => {
-    // Clear analyzer immediately to stop visualizer loop access
+  // Tears down what this mode adds on top of the session; runs however the session ended
+  const endConversation = (finished: ConversationRecord | null) => {
     if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
         animationFrameRef.current = 0;
     }
-    analyserRef.current = null;
+    // Abandon tool calls still running for this session
+    toolRegistryRef.current.cancelAll();
+    stopVideoSource();
+    micGateRef.current = null;
+    finishConversation(finished);
+    setSessionPersona(null);
+    addLog("Conversation ended");
+  };
 
-    // Close session
-    if (sessionRef.current) {
-      sessionRef.current = null;
-    }
+  const stopConversation = () => session.stop();
 
-    // Stop microphone
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
+  const handleMessage = (message: LiveServerMessage, textReplies: boolean) => {
+    // Text replies arrive as model text; voice replies are transcribed by the session
+    const replyText = textReplies
+      ? message.serverContent?.modelTurn?.parts?.map(part => (part.thought ? '' : part.text ?? '')).join('')
+      : undefined;
+    if (replyText) {
+      updateConversation(c => ({ ...c, turns: appendTranscription(c.turns, 'model', replyText) }));
     }
-
-    // Stop audio context processing
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
+    // Handle Tool Calls
+    for (const call of message.toolCall?.functionCalls ?? []) {
+      const callId = call.id ?? crypto.randomUUID();
+      const name = call.name ?? 'unknown';
+      addLog(`Tool call: ${name}`);
+      updateConversation(c => ({
+        ...c,
+        turns: appendToolInvocation(c.turns, { callId, name, args: call.args ?? {}, status: 'running' }),
+      }));
+
+      toolRegistryRef.current.dispatch({ ...call, id: callId }).then(async response => {
+        const failed = 'error' in (response.response ?? {});
+        updateConversation(c => ({
+          ...c,
+          turns: updateToolInvocation(c.turns, callId, {
+            status: failed ? 'failed' : 'succeeded',
+            result: response.response,
+          }),
+        }), true);
+        sessionRef.current?.sendToolResponse({ functionResponses: [response] });
+      }).catch(err => {
+        if (!(err instanceof ToolCancelledError)) console.error("Tool dispatch error", err);
+      });
     }
-    
-    // Stop playing sources
-    sourcesRef.current.forEach(source => {
-        try { source.stop(); } catch (e) {}
-    });
-    sourcesRef.current.clear();
 
-    if (audioContextRef.current) {
-      try { await audioContextRef.current.close(); } catch(e) { console.error(e); }
-      audioContextRef.current = null;
+    if (message.toolCallCancellation?.ids) {
+      const ids = message.toolCallCancellation.ids;
+      toolRegistryRef.current.cancel(ids);
+      updateConversation(c => ({
+        ...c,
+        turns: ids.reduce((turns, id) => updateToolInvocation(turns, id, { status: 'cancelled' }), c.turns),
+      }), true);
     }
-
-    setIsConnected(false);
-    setIsSpeaking(false);
-    addLog("Conversation ended");
   };
 
   const startConversation = async () => {
     setError(null);
-    try {
-      addLog("Requesting microphone...");
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
-
-      addLog("Initializing AudioContext...");
-      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
-      const audioCtx = new AudioContextClass({ sampleRate: 24000 }); // Output sample rate
-      audioContextRef.current = audioCtx;
-      nextStartTimeRef.current = audioCtx.currentTime;
-
-      // Setup Input Context (16k for model)
-      const inputAudioCtx = new AudioContextClass({ sampleRate: 16000 });
-      const source = inputAudioCtx.createMediaStreamSource(stream);
-      const scriptProcessor = inputAudioCtx.createScriptProcessor(4096, 1, 1);
-      scriptProcessorRef.current = scriptProcessor;
-
-      // Setup Visualizer (using input stream)
-      const analyser = audioCtx.createAnalyser();
-      analyser.fftSize = 256;
-      analyserRef.current = analyser;
-      
-      const visSource = audioCtx.createMediaStreamSource(stream);
-      visSource.connect(analyser);
-      drawVisualizer();
-
-      addLog("Connecting to Gemini Live...");
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: 'You are a helpful, witty, and concise AI assistant.',
-        },
-        callbacks: {
-          onopen: () => {
-            addLog("Connected!");
-            setIsConnected(true);
-            
-            // Connect audio pipeline
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => {
-                  sessionRef.current = session;
-                  session.sendRealtimeInput({ media: pcmBlob });
-              }).catch(err => {
-                  console.error("Session send error", err);
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-               setIsSpeaking(true);
-               
-               // Sync time
-               nextStartTimeRef.current = Math.max(
-                 nextStartTimeRef.current,
-                 audioCtx.currentTime
-               );
-
-               const audioBuffer = await decodeAudioData(
-                 decode(base64Audio),
-                 audioCtx,
-                 24000,
-                 1
-               );
-
-               const sourceNode = audioCtx.createBufferSource();
-               sourceNode.buffer = audioBuffer;
-               
-               // Connect to output and also to analyser for visualizer
-               sourceNode.connect(audioCtx.destination);
-               sourceNode.connect(analyser); 
-
-               sourceNode.addEventListener('ended', () => {
-                 sourcesRef.current.delete(sourceNode);
-                 if (sourcesRef.current.size === 0) setIsSpeaking(false);
-               });
-
-               sourceNode.start(nextStartTimeRef.current);
-               nextStartTimeRef.current += audioBuffer.duration;
-               sourcesRef.current.add(sourceNode);
-            }
-            
-            // Handle Interruption
-            if (message.serverContent?.interrupted) {
-                addLog("Interrupted");
-                sourcesRef.current.forEach(s => s.stop());
-                sourcesRef.current.clear();
-                nextStartTimeRef.current = audioCtx.currentTime;
-                setIsSpeaking(false);
-            }
-          },
-          onclose: () => {
-            addLog("Disconnected by server");
-            stopConversation();
-          },
-          onerror: (e) => {
-            console.error(e);
-            setError("Connection error");
-            stopConversation();
-          }
+    // A session's cost isn't known up front, so this only warns once a limit is reached
+    if (!(await confirmWithinBudget(0))) return;
+    setOpenedId(null);
+    const persona = activePersona ?? DEFAULT_PERSONAS[0];
+    const { model, config: { speechConfig, ...personaConfig } } = personaToLiveConfig(persona);
+    const textReplies = replyModality === Modality.TEXT && supportsTextReplies(model);
+
+    const gate = new MicGate(inputMode, vadOptions, {
+      send: session.sendAudio,
+      activityStart: () => sessionRef.current?.sendRealtimeInput({ activityStart: {} }),
+      activityEnd: () => sessionRef.current?.sendRealtimeInput({ activityEnd: {} }),
+      onStateChange: setMicState,
+    });
+    micGateRef.current = gate;
+    setMicState(gate.currentState);
+
+    await session.start({
+      model,
+      config: {
+        ...personaConfig,
+        responseModalities: [textReplies ? Modality.TEXT : Modality.AUDIO],
+        ...(textReplies ? {} : { speechConfig }),
+        tools: toolRegistryRef.current.getTools(),
+        // Gated modes mark speech themselves, so the server must not wait for silence it will never get
+        ...(inputMode !== 'always-on' ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+      },
+      spokenReplies: !textReplies,
+      chunkMs: micChunkMs,
+      onMicChunk: (samples, sampleRate, outputTime) => {
+        gate.process(samples, sampleRate);
+        recorderRef.current?.addUserAudio(samples, sampleRate, outputTime);
+      },
+      onMessage: message => handleMessage(message, textReplies),
+      onModelAudio: (samples, startTime) => recorderRef.current?.addModelAudio(samples, startTime),
+      onInterrupted: time => recorderRef.current?.interruptModel(time),
+      onConnected: audioCtx => {
+        addLog(`Connected as ${persona.name}`);
+        setSessionPersona(persona);
+        drawVisualizer();
+        if (isRecordingEnabled) {
+          recorderRef.current = new ConversationRecorder(audioCtx.currentTime);
+          addLog("Recording audio");
         }
-      });
+      },
+      onEnded: endConversation,
+    });
+  };
 
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Failed to start conversation");
-      stopConversation();
-    }
+  const sendMessage = (text: string) => {
+    if (!sessionRef.current) return;
+    sessionRef.current.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    updateConversation(c => ({ ...c, turns: appendTextTurn(c.turns, 'user', text) }), true);
+  };
+
+  const updateVadOptions = (options: VadOptions) => {
+    setVadOptions(options);
+    micGateRef.current?.updateVadOptions(options);
   };
 
-  // Cleanup on unmount
+  const getMicLevelDb = useCallback(() => micGateRef.current?.lastLevelDb ?? -Infinity, []);
+
+  // Space bar push-to-talk, unless the user is typing somewhere
   useEffect(() => {
+    if (!isConnected || inputMode !== 'push-to-talk') return;
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) micGateRef.current?.setTalking(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      micGateRef.current?.setTalking(false);
+    };
+    // Releasing the key in another window would otherwise leave the mic open
+    const onBlur = () => micGateRef.current?.setTalking(false);
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
     return () => {
-      stopConversation();
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
     };
+  }, [isConnected, inputMode]);
+
+  useEffect(() => {
+    if (!sharedSettings || personas.length === 0) return;
+    const { personaId, persona: linked } = sharedSettings;
+    if (personaId && personas.some(persona => persona.id === personaId)) {
+      selectPersona(personaId);
+    } else if (linked) {
+      // Saved under the link's id, so opening the same link again picks it rather than adding a copy
+      const { name, ...settings } = linked;
+      storePersonas([{ ...createPersona(name, settings), ...(personaId ? { id: personaId } : {}) }]);
+      addLog(`Added the linked persona "${name}"`);
+    } else if (personaId) {
+      setError("The linked persona isn't saved in this browser. Import it to use it.");
+    }
+    onNavigate({ mode: AppMode.LIVE_CONVERSATION, conversationId: openedId ?? undefined }, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sharedSettings, personas]);
+
+  // Load the recording, if any, of the conversation being viewed
+  useEffect(() => {
+    if (!openedId) {
+      setOpenedRecording(null);
+      return;
+    }
+    let cancelled = false;
+    getRecording(openedId)
+      .then(recording => { if (!cancelled) setOpenedRecording(recording ?? null); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [openedId, conversations]);
+
+  // The session hangs itself up on unmount; the camera can be on without one
+  useEffect(() => {
+    refreshConversations();
+    refreshPersonas();
+    return () => stopVideoSource();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -281,9 +493,29 @@ const LiveConversation: React.FC = () => {
             )}
         </div>
 
+        {/* Active persona */}
+        {sessionPersona && (
+          <div className="absolute top-4 left-4 z-10 px-3 py-1 rounded-full bg-black/40 border border-white/10 text-xs text-gray-300">
+            <span className="text-cyan-300">{sessionPersona.name}</span>
+            <span className="text-gray-500"> • {sessionPersona.voiceName}{sessionPersona.languageCode && ` • ${sessionPersona.languageCode}`}</span>
+          </div>
+        )}
+
+        {/* Recording indicator */}
+        {isConnected && isRecordingEnabled && (
+          <div className="absolute bottom-8 right-6 z-10 flex items-center gap-1.5 text-xs font-mono text-red-300">
+            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+            REC
+          </div>
+        )}
+
         {/* Status Text */}
         <div className="absolute bottom-8 z-10 font-mono text-sm">
-            {isConnected ? (
+            {isReconnecting ? (
+                <span className="px-3 py-1 rounded-full bg-amber-500/20 text-amber-300 border border-white/10 animate-pulse">
+                    Reconnecting...
+                </span>
+            ) : isConnected ? (
                 <span className={`px-3 py-1 rounded-full ${isSpeaking ? 'bg-green-500/20 text-green-300' : 'bg-blue-500/20 text-blue-300'} border border-white/10`}>
                     {isSpeaking ? 'Gemini is speaking...' : 'Listening...'}
                 </span>
@@ -292,6 +524,13 @@ const LiveConversation: React.FC = () => {
             )}
         </div>
 
+        {/* Local video preview */}
+        {videoStream && (
+          <div className="absolute top-4 right-4 z-10">
+            <VideoPreview stream={videoStream} isPaused={isVideoPaused} />
+          </div>
+        )}
+
         {/* Error Toast */}
         {error && (
             <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-red-900/90 text-red-100 px-4 py-2 rounded-lg text-sm border border-red-700">
@@ -300,6 +539,105 @@ const LiveConversation: React.FC = () => {
         )}
       </div>
 
+      <div className="w-full max-w-2xl space-y-3">
+        <PersonaPanel
+          personas={personas}
+          activePersona={activePersona}
+          disabled={isConnected}
+          onSelect={selectPersona}
+          onSave={(persona) => storePersonas([persona])}
+          onDelete={removePersona}
+          onImport={storePersonas}
+        />
+        <MicInputPanel
+          mode={inputMode}
+          vadOptions={vadOptions}
+          micState={micState}
+          isConnected={isConnected}
+          getLevelDb={getMicLevelDb}
+          onModeChange={setInputMode}
+          onVadOptionsChange={updateVadOptions}
+          onTalkingChange={(talking) => micGateRef.current?.setTalking(talking)}
+        />
+        <AudioDevicePanel
+          devices={audioDevices}
+          settings={deviceSettings}
+          isConnected={isConnected}
+          onChange={updateDeviceSettings}
+          onPermissionGranted={refreshAudioDevices}
+        />
+        <div className="flex justify-center gap-6">
+          <label
+            className="flex items-center gap-2 text-xs text-gray-400"
+            title={canReplyInText ? undefined : "This persona's native-audio model only replies by voice"}
+          >
+            Replies
+            <select
+              value={canReplyInText ? replyModality : Modality.AUDIO}
+              onChange={(e) => setReplyModality(e.target.value as Modality.AUDIO | Modality.TEXT)}
+              disabled={isConnected}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 disabled:opacity-50"
+            >
+              <option value={Modality.AUDIO}>Voice</option>
+              <option value={Modality.TEXT} disabled={!canReplyInText}>Text</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={isRecordingEnabled}
+              onChange={(e) => setIsRecordingEnabled(e.target.checked)}
+              disabled={isConnected}
+            />
+            Record audio
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-400" title="Smaller chunks reach Gemini sooner">
+            Mic chunk
+            <select
+              value={micChunkMs}
+              onChange={(e) => setMicChunkMs(Number(e.target.value))}
+              disabled={isConnected}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 disabled:opacity-50"
+            >
+              {MIC_CHUNK_SIZES_MS.map(ms => <option key={ms} value={ms}>{ms} ms</option>)}
+            </select>
+          </label>
+        </div>
+        <VideoInputPanel
+          source={videoSource}
+          options={captureOptions}
+          isPaused={isVideoPaused}
+          onSourceChange={selectVideoSource}
+          onOptionsChange={updateCaptureOptions}
+          onPausedChange={setVideoPaused}
+        />
+      </div>
+
+      {(conversation || openedConversation) && (
+        <div className="w-full max-w-2xl">
+          <TranscriptPanel
+            conversation={conversation ?? openedConversation}
+            recording={conversation ? null : openedRecording}
+            isLive={!!conversation}
+            onClose={() => setOpenedId(null)}
+          />
+          {conversation && (
+            <div className="mt-2">
+              <MessageComposer disabled={!isConnected} onSend={sendMessage} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="w-full max-w-2xl">
+        <ConversationLibrary
+          conversations={conversations}
+          selectedId={conversation ? null : openedId}
+          onOpen={setOpenedId}
+          onDelete={removeConversation}
+        />
+      </div>
+
       <div className="w-full max-w-lg">
         <h3 className="text-xs font-bold text-gray-600 uppercase tracking-widest mb-2">System Logs</h3>
         <div className="bg-black/30 rounded-lg p-3 font-mono text-xs text-gray-400 h-24 overflow-y-auto border border-gray-800">
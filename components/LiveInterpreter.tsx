@@ -0,0 +1,297 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modality } from '@google/genai';
+import { AppMode, ConversationRecord, LanguagePair } from '../types';
+import { deleteConversation, listConversations, saveConversation } from '../utils/conversationStore';
+import {
+  buildInterpreterInstruction,
+  Exchange,
+  getLanguagePair,
+  INTERPRETER_LANGUAGES,
+  languageLabel,
+  setLanguagePair,
+  textIn,
+  toExchanges,
+} from '../utils/interpreter';
+import { LIVE_MODELS, LIVE_VOICES } from '../utils/personaStore';
+import { InterpreterRoute, NavigateOptions, useRouteSelection } from '../utils/router';
+import { confirmWithinBudget } from '../utils/usageStore';
+import { useLiveAudioSession } from '../utils/useLiveAudioSession';
+import AudioDevicePanel from './AudioDevicePanel';
+import BilingualTranscript from './BilingualTranscript';
+import ConversationLibrary from './ConversationLibrary';
+
+interface LiveInterpreterProps {
+  // Saved session named in the URL
+  conversationId?: string;
+  onNavigate: (route: InterpreterRoute, options?: NavigateOptions) => void;
+}
+
+const INTERPRETER_MODEL = LIVE_MODELS[0];
+// Mic audio is held back until a translation has finished playing plus this long, so on a
+// single device the model doesn't hear, and interpret, its own voice from the speaker
+const ECHO_TAIL_SECONDS = 0.3;
+
+interface HandsfreeSideProps {
+  language: string;
+  exchange: Exchange | null;
+  status: string;
+  flipped?: boolean;
+}
+
+// Half of the shared screen, facing the person who speaks `language`
+const HandsfreeSide: React.FC<HandsfreeSideProps> = ({ language, exchange, status, flipped }) => {
+  const text = exchange ? textIn(exchange, language) : '';
+  const isOwnWords = exchange?.language === language;
+  return (
+    <div className={`flex-1 flex flex-col items-center justify-center gap-4 p-8 text-center ${flipped ? 'rotate-180' : ''}`}>
+      <span className="text-xs font-mono uppercase tracking-widest text-gray-500">{languageLabel(language)}</span>
+      <p className={`max-w-3xl text-2xl md:text-4xl leading-snug ${isOwnWords ? 'text-gray-400' : 'text-white'}`}>
+        {text || 'Speak, and the translation will appear on the other side.'}
+      </p>
+      <span className="text-sm text-amber-300/80">{status}</span>
+    </div>
+  );
+};
+
+const LiveInterpreter: React.FC<LiveInterpreterProps> = ({ conversationId, onNavigate }) => {
+  const [languages, setLanguages] = useState<LanguagePair>(getLanguagePair);
+  const [voiceName, setVoiceName] = useState(LIVE_VOICES[0]);
+  const [isHandsfree, setIsHandsfree] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+
+  const session = useLiveAudioSession({ onError: setError });
+  const { isConnected, isSpeaking, isReconnecting, conversation } = session;
+  const [openedId, setOpenedId] = useRouteSelection(conversationId, id =>
+    onNavigate({ mode: AppMode.INTERPRETER, conversationId: id }, { replace: true }),
+  );
+  const wakeLockRef = useRef<WakeLockSentinel | null>(null);
+
+  const openedConversation = conversations.find(c => c.id === openedId) ?? null;
+  const shownConversation = conversation ?? openedConversation;
+  const shownLanguages = shownConversation?.languages ?? languages;
+  const exchanges = conversation ? toExchanges(conversation.turns, languages) : [];
+  const latestExchange = exchanges[exchanges.length - 1] ?? null;
+  const isSameLanguage = languages.source === languages.target;
+
+  const refreshConversations = () => {
+    listConversations()
+      .then(list => setConversations(list.filter(c => c.languages)))
+      .catch(err => console.error(err));
+  };
+
+  const updateLanguages = (patch: Partial<LanguagePair>) => {
+    const next = { ...languages, ...patch };
+    setLanguages(next);
+    setLanguagePair(next);
+  };
+
+  const swapLanguages = () => updateLanguages({ source: languages.target, target: languages.source });
+
+  const finishConversation = (finished: ConversationRecord | null) => {
+    wakeLockRef.current?.release().catch(() => {});
+    wakeLockRef.current = null;
+    if (!finished) return;
+    setOpenedId(finished.turns.length > 0 ? finished.id : null);
+    saveConversation(finished)
+      .then(refreshConversations)
+      .catch(err => console.error("Failed to save transcript", err));
+  };
+
+  const stopSession = () => session.stop();
+
+  const startSession = async () => {
+    setError(null);
+    if (isSameLanguage) {
+      setError('Pick two different languages.');
+      return;
+    }
+    if (!(await confirmWithinBudget(0))) return;
+    setOpenedId(null);
+    const pair = languages;
+
+    await session.start({
+      model: INTERPRETER_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: buildInterpreterInstruction(pair),
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+      },
+      conversationFields: { languages: pair },
+      onMicChunk: (samples) => {
+        if (session.isPlaying(ECHO_TAIL_SECONDS)) return;
+        session.sendAudio(samples);
+      },
+      onConnected: () => {
+        // Keep the screen on while it sits between two people; not every browser allows it
+        navigator.wakeLock?.request('screen')
+          .then(lock => { wakeLockRef.current = lock; })
+          .catch(() => {});
+      },
+      onEnded: finishConversation,
+    });
+  };
+
+  const removeConversation = (id: string) => {
+    if (id === openedId) setOpenedId(null);
+    deleteConversation(id).then(refreshConversations).catch(err => console.error(err));
+  };
+
+  useEffect(() => {
+    refreshConversations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const status = isReconnecting
+    ? 'Reconnecting...'
+    : isSpeaking ? 'Interpreting...' : isConnected ? 'Listening...' : 'Not connected';
+
+  if (isHandsfree) {
+    return (
+      <div className="fixed inset-0 z-[60] flex flex-col bg-[#09090b]">
+        {/* The far side is upside down so the person across the table can read it */}
+        <HandsfreeSide language={languages.target} exchange={latestExchange} status={status} flipped />
+        <div className="flex items-center justify-center gap-3 py-3 border-y border-white/10">
+          <button
+            onClick={isConnected ? stopSession : startSession}
+            className={`px-5 py-2 rounded-full text-sm font-semibold border ${
+              isConnected ? 'border-red-500/60 text-red-300 hover:bg-red-900/30' : 'border-amber-500/60 text-amber-300 hover:bg-amber-900/20'
+            }`}
+          >
+            {isConnected ? 'Stop' : 'Start'}
+          </button>
+          <button
+            onClick={() => setIsHandsfree(false)}
+            className="px-4 py-2 rounded-full text-sm border border-gray-700 text-gray-400 hover:text-white"
+          >
+            Exit shared view
+          </button>
+          {error && <span className="text-sm text-red-300">{error}</span>}
+        </div>
+        <HandsfreeSide language={languages.source} exchange={latestExchange} status={status} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full max-w-4xl mx-auto p-4 md:p-8 space-y-8 items-center">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-amber-400 to-orange-400 bg-clip-text text-transparent">
+          Live Interpreter
+        </h2>
+        <p className="text-gray-400">Two languages, one conversation: each turn is spoken back in the other language</p>
+      </div>
+
+      <div className="w-full max-w-2xl space-y-4 bg-gray-900/50 p-6 rounded-2xl border border-gray-800">
+        <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-3">
+          <label className="space-y-1 text-xs text-gray-400">
+            <span className="block">You speak</span>
+            <select
+              value={languages.source}
+              onChange={(e) => updateLanguages({ source: e.target.value })}
+              disabled={isConnected}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 disabled:opacity-50"
+            >
+              {INTERPRETER_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={swapLanguages}
+            disabled={isConnected}
+            title="Swap languages"
+            className="mb-0.5 px-3 py-2 rounded-lg border border-gray-700 text-xs text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+          >
+            Swap
+          </button>
+          <label className="space-y-1 text-xs text-gray-400">
+            <span className="block">They speak</span>
+            <select
+              value={languages.target}
+              onChange={(e) => updateLanguages({ target: e.target.value })}
+              disabled={isConnected}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 disabled:opacity-50"
+            >
+              {INTERPRETER_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Voice
+            <select
+              value={voiceName}
+              onChange={(e) => setVoiceName(e.target.value)}
+              disabled={isConnected}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 disabled:opacity-50"
+            >
+              {LIVE_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+            </select>
+          </label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsHandsfree(true)}
+              disabled={isSameLanguage}
+              title="Split the screen between two people sharing this device"
+              className="px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+            >
+              Shared view
+            </button>
+            <button
+              onClick={isConnected ? stopSession : startSession}
+              disabled={!isConnected && isSameLanguage}
+              className={`px-4 py-1.5 rounded-lg text-sm font-semibold border disabled:opacity-40 ${
+                isConnected
+                  ? 'border-red-500/60 text-red-300 hover:bg-red-900/30'
+                  : 'bg-amber-500/20 border-amber-500/60 text-amber-200 hover:bg-amber-500/30'
+              }`}
+            >
+              {isConnected ? 'Stop' : 'Start interpreting'}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <span className={isReconnecting ? 'text-amber-300 animate-pulse' : isConnected ? 'text-emerald-300' : 'text-gray-500'}>
+            {status}
+          </span>
+          {isSameLanguage && <span className="text-gray-500">Pick two different languages.</span>}
+        </div>
+
+        <AudioDevicePanel
+          devices={session.audioDevices}
+          settings={session.deviceSettings}
+          isConnected={isConnected}
+          onChange={session.updateDeviceSettings}
+          onPermissionGranted={session.refreshAudioDevices}
+        />
+
+        {error && (
+          <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">{error}</div>
+        )}
+      </div>
+
+      {shownConversation && (
+        <div className="w-full max-w-2xl">
+          <BilingualTranscript
+            conversation={shownConversation}
+            languages={shownLanguages}
+            isLive={!!conversation}
+            onClose={() => setOpenedId(null)}
+          />
+        </div>
+      )}
+
+      <div className="w-full max-w-2xl">
+        <ConversationLibrary
+          conversations={conversations}
+          selectedId={conversation ? null : openedId}
+          onOpen={setOpenedId}
+          onDelete={removeConversation}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LiveInterpreter;
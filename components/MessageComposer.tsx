@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+
+interface MessageComposerProps {
+  disabled: boolean;
+  onSend: (text: string) => void;
+}
+
+const MessageComposer: React.FC<MessageComposerProps> = ({ disabled, onSend }) => {
+  const [text, setText] = useState('');
+
+  const send = () => {
+    const message = text.trim();
+    if (!message || disabled) return;
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <div className="flex items-end gap-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter sends; Shift+Enter keeps multi-line snippets possible
+          if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            send();
+          }
+        }}
+        disabled={disabled}
+        rows={Math.min(6, Math.max(1, text.split('\n').length))}
+        placeholder={disabled ? 'Connect to send a message' : 'Type a message, URL or code… (Shift+Enter for a new line)'}
+        className="flex-1 resize-none bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:border-cyan-500/60 disabled:opacity-50"
+      />
+      <button
+        onClick={send}
+        disabled={disabled || !text.trim()}
+        className="px-4 py-2 rounded-xl bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium disabled:opacity-40"
+      >
+        Send
+      </button>
+    </div>
+  );
+};
+
+export default MessageComposer;
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef } from 'react';
+import { InputMode, INPUT_MODE_LABELS, MicState, VadOptions } from '../utils/micGate';
+
+interface MicInputPanelProps {
+  mode: InputMode;
+  vadOptions: VadOptions;
+  micState: MicState;
+  isConnected: boolean;
+  getLevelDb: () => number;
+  onModeChange: (mode: InputMode) => void;
+  onVadOptionsChange: (options: VadOptions) => void;
+  onTalkingChange: (talking: boolean) => void;
+}
+
+const MODES: InputMode[] = ['always-on', 'push-to-talk', 'vad'];
+
+// Meter range, in dBFS
+const METER_FLOOR_DB = -80;
+const METER_CEILING_DB = 0;
+
+const toPercent = (db: number) =>
+  Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / (METER_CEILING_DB - METER_FLOOR_DB)) * 100));
+
+const MIC_STATE_STYLES: Record<MicState, { label: string; className: string }> = {
+  streaming: { label: 'Mic streaming', className: 'bg-blue-500/20 text-blue-300' },
+  open: { label: 'Sending', className: 'bg-green-500/20 text-green-300' },
+  closed: { label: 'Not sending', className: 'bg-gray-700/40 text-gray-400' },
+};
+
+// Polls the level on animation frames so chunk-rate updates don't re-render the page
+export const LevelMeter: React.FC<{ getLevelDb: () => number; thresholdDb?: number; isOpen: boolean }> = ({
+  getLevelDb,
+  thresholdDb,
+  isOpen,
+}) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      if (barRef.current) barRef.current.style.width = `${toPercent(getLevelDb())}%`;
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [getLevelDb]);
+
+  return (
+    <div className="relative h-2 w-full rounded-full bg-gray-800 overflow-hidden">
+      <div ref={barRef} className={`h-full transition-[width] duration-75 ${isOpen ? 'bg-green-400' : 'bg-gray-500'}`} />
+      {thresholdDb !== undefined && (
+        <div className="absolute top-0 bottom-0 w-0.5 bg-amber-400" style={{ left: `${toPercent(thresholdDb)}%` }} />
+      )}
+    </div>
+  );
+};
+
+const MicInputPanel: React.FC<MicInputPanelProps> = ({
+  mode,
+  vadOptions,
+  micState,
+  isConnected,
+  getLevelDb,
+  onModeChange,
+  onVadOptionsChange,
+  onTalkingChange,
+}) => {
+  const stateStyle = MIC_STATE_STYLES[micState];
+
+  return (
+    <div className="w-full rounded-xl border border-gray-800 bg-gray-900/40 p-3 space-y-3 text-xs text-gray-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-1 bg-white/5 p-1 rounded-full border border-white/10">
+          {MODES.map(value => (
+            <button
+              key={value}
+              onClick={() => onModeChange(value)}
+              // The server's turn detection is configured when the session opens
+              disabled={isConnected}
+              className={`px-3 py-1 rounded-full font-medium transition-all disabled:cursor-not-allowed ${
+                mode === value ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-400 hover:text-white disabled:hover:text-gray-400'
+              }`}
+            >
+              {INPUT_MODE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        {isConnected && (
+          <span className={`ml-auto px-2 py-0.5 rounded-full font-mono border border-white/10 ${stateStyle.className}`}>
+            {stateStyle.label}
+          </span>
+        )}
+      </div>
+
+      {isConnected && (
+        <LevelMeter
+          getLevelDb={getLevelDb}
+          thresholdDb={mode === 'vad' ? vadOptions.thresholdDb : undefined}
+          isOpen={micState !== 'closed'}
+        />
+      )}
+
+      {mode === 'push-to-talk' && (
+        <div className="flex items-center gap-3">
+          <button
+            onPointerDown={() => onTalkingChange(true)}
+            onPointerUp={() => onTalkingChange(false)}
+            onPointerLeave={() => onTalkingChange(false)}
+            disabled={!isConnected}
+            className={`px-4 py-2 rounded-full border font-medium select-none transition-colors disabled:opacity-40 ${
+              micState === 'open' ? 'border-green-400 bg-green-500/20 text-green-200' : 'border-gray-700 text-gray-300 hover:bg-gray-800'
+            }`}
+          >
+            Hold to talk
+          </button>
+          <span>or hold <kbd className="px-1.5 py-0.5 rounded border border-gray-700 bg-gray-800 font-mono text-gray-300">Space</kbd></span>
+        </div>
+      )}
+
+      {mode === 'vad' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="space-y-1">
+            <span>Threshold • {vadOptions.thresholdDb} dB</span>
+            <input
+              type="range"
+              min={-70}
+              max={-20}
+              step={1}
+              value={vadOptions.thresholdDb}
+              onChange={(e) => onVadOptionsChange({ ...vadOptions, thresholdDb: Number(e.target.value) })}
+              className="w-full accent-amber-400"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Hold • {vadOptions.holdMs} ms</span>
+            <input
+              type="range"
+              min={200}
+              max={2000}
+              step={100}
+              value={vadOptions.holdMs}
+              onChange={(e) => onVadOptionsChange({ ...vadOptions, holdMs: Number(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Min speech • {vadOptions.minSpeechMs} ms</span>
+            <input
+              type="range"
+              min={0}
+              max={300}
+              step={20}
+              value={vadOptions.minSpeechMs}
+              onChange={(e) => onVadOptionsChange({ ...vadOptions, minSpeechMs: Number(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicInputPanel;
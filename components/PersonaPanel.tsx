@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppMode, LivePersona } from '../types';
+import {
+  createPersona,
+  exportPersonas,
+  LIVE_LANGUAGES,
+  LIVE_MODELS,
+  LIVE_VOICES,
+  parsePersonaImport,
+} from '../utils/personaStore';
+import { buildShareUrl } from '../utils/router';
+
+interface PersonaPanelProps {
+  personas: LivePersona[];
+  activePersona: LivePersona | null;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onSave: (persona: LivePersona) => void;
+  onDelete: (id: string) => void;
+  onImport: (personas: LivePersona[]) => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-cyan-500/60';
+
+const PersonaPanel: React.FC<PersonaPanelProps> = ({
+  personas,
+  activePersona,
+  disabled,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<LivePersona | null>(activePersona);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Switching persona discards unsaved edits
+  useEffect(() => {
+    setDraft(activePersona);
+  }, [activePersona]);
+
+  const update = <K extends keyof LivePersona>(key: K, value: LivePersona[K]) => {
+    setDraft(current => current && { ...current, [key]: value });
+  };
+
+  const saveAsNew = () => {
+    if (!draft) return;
+    const name = window.prompt('Name for the new persona', `${draft.name} copy`)?.trim();
+    if (name) onSave(createPersona(name, draft));
+  };
+
+  const copyLink = async () => {
+    if (!activePersona) return;
+    const { id, updatedAt, ...persona } = activePersona;
+    try {
+      await navigator.clipboard.writeText(buildShareUrl({
+        mode: AppMode.LIVE_CONVERSATION,
+        settings: { personaId: id, persona },
+      }));
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setImportError(null);
+    try {
+      onImport(parsePersonaImport(await file.text()));
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  const isDirty = !!draft && !!activePersona && JSON.stringify(draft) !== JSON.stringify(activePersona);
+
+  return (
+    <div className="w-full rounded-xl border border-gray-800 bg-gray-900/40 p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs font-bold text-gray-600 uppercase tracking-widest">Persona</label>
+        <select
+          value={activePersona?.id ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 disabled:opacity-50"
+        >
+          {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+        </select>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-gray-700 text-xs text-gray-300 hover:bg-gray-800 disabled:opacity-50"
+        >
+          {isEditing ? 'Hide settings' : 'Edit'}
+        </button>
+        <div className="ml-auto flex items-center gap-1 text-[11px]">
+          <button
+            onClick={copyLink}
+            disabled={!activePersona}
+            title="Link that opens Live with this persona. Custom personas need to be exported to teammates as well."
+            className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            {isLinkCopied ? 'Copied' : 'Copy link'}
+          </button>
+          <button
+            onClick={() => exportPersonas(personas)}
+            className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importError && <p className="text-xs text-red-300">{importError}</p>}
+
+      {isEditing && !disabled && draft && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-gray-400">
+          <label className="space-y-1">
+            <span>Name</span>
+            <input value={draft.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span>Model</span>
+            <select value={draft.model} onChange={(e) => update('model', e.target.value)} className={inputClass}>
+              {/* Keep imported model ids selectable even if they are not in the list */}
+              {[...new Set([...LIVE_MODELS, draft.model])].map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>Voice</span>
+            <select value={draft.voiceName} onChange={(e) => update('voiceName', e.target.value)} className={inputClass}>
+              {[...new Set([...LIVE_VOICES, draft.voiceName])].map(voice => <option key={voice} value={voice}>{voice}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>Language</span>
+            <select value={draft.languageCode} onChange={(e) => update('languageCode', e.target.value)} className={inputClass}>
+              {LIVE_LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1 md:col-span-2">
+            <span>System instruction</span>
+            <textarea
+              value={draft.systemInstruction}
+              onChange={(e) => update('systemInstruction', e.target.value)}
+              rows={4}
+              className={`${inputClass} resize-y`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Temperature • {draft.temperature.toFixed(1)}</span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => update('temperature', Number(e.target.value))}
+              className="w-full accent-cyan-500"
+            />
+          </label>
+          <div className="flex flex-col justify-end gap-1">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.enableAffectiveDialog}
+                onChange={(e) => update('enableAffectiveDialog', e.target.checked)}
+              />
+              Affective dialog
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.proactiveAudio}
+                onChange={(e) => update('proactiveAudio', e.target.checked)}
+              />
+              Proactive audio
+            </label>
+          </div>
+          <div className="md:col-span-2 flex items-center gap-2">
+            <button
+              onClick={() => onSave(draft)}
+              disabled={!isDirty || !draft.name.trim()}
+              className="px-3 py-1 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-medium disabled:opacity-40"
+            >
+              Save
+            </button>
+            <button onClick={saveAsNew} className="px-3 py-1 rounded border border-gray-700 text-gray-300 text-xs hover:bg-gray-800">
+              Save as new
+            </button>
+            <button
+              onClick={() => setDraft(activePersona)}
+              disabled={!isDirty}
+              className="px-3 py-1 rounded text-gray-400 text-xs hover:text-white disabled:opacity-40"
+            >
+              Revert
+            </button>
+            <button
+              onClick={() => onDelete(draft.id)}
+              disabled={personas.length <= 1}
+              className="ml-auto px-3 py-1 rounded text-xs text-gray-500 hover:text-red-300 disabled:opacity-40"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaPanel;
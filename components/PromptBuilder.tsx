@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PromptFields, PromptTemplate } from '../types';
+import {
+  CAMERA_MOVEMENTS,
+  composePrompt,
+  deletePromptTemplate,
+  EMPTY_PROMPT_FIELDS,
+  exportPromptTemplates,
+  LIGHTING_PRESETS,
+  listPromptTemplates,
+  parsePromptTemplateImport,
+  savePromptTemplate,
+  STYLE_PRESETS,
+} from '../utils/promptBuilder';
+
+interface PromptBuilderProps {
+  onApply: (prompt: string) => void;
+}
+
+const FIELDS: { key: keyof PromptFields; label: string; placeholder: string; presets?: string[] }[] = [
+  { key: 'subject', label: 'Subject & action', placeholder: 'A red fox trotting through fresh snow' },
+  { key: 'cameraMovement', label: 'Camera', placeholder: 'Slow dolly in', presets: CAMERA_MOVEMENTS },
+  { key: 'lighting', label: 'Lighting', placeholder: 'Golden hour', presets: LIGHTING_PRESETS },
+  { key: 'style', label: 'Style', placeholder: 'Cinematic, shallow depth of field', presets: STYLE_PRESETS },
+  { key: 'audioCues', label: 'Audio cues', placeholder: 'Crunching snow, soft wind' },
+];
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:ring-1 focus:ring-purple-500 focus:outline-none';
+
+const PromptBuilder: React.FC<PromptBuilderProps> = ({ onApply }) => {
+  const [fields, setFields] = useState<PromptFields>(EMPTY_PROMPT_FIELDS);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const composed = composePrompt(fields);
+
+  const refreshTemplates = () => {
+    listPromptTemplates().then(setTemplates).catch(err => console.error(err));
+  };
+
+  useEffect(() => {
+    refreshTemplates();
+  }, []);
+
+  const loadTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) setFields({ ...EMPTY_PROMPT_FIELDS, ...template.fields });
+  };
+
+  const saveTemplate = async () => {
+    const current = templates.find(t => t.id === templateId);
+    const name = window.prompt('Template name', current?.name ?? '')?.trim();
+    if (!name) return;
+    // Saving under the loaded template's name updates it; any other name creates a new one
+    const id = current && current.name === name ? current.id : crypto.randomUUID();
+    try {
+      await savePromptTemplate({ id, name, fields, updatedAt: Date.now() });
+      setTemplateId(id);
+      refreshTemplates();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the template.');
+    }
+  };
+
+  const removeTemplate = () => {
+    if (!templateId) return;
+    deletePromptTemplate(templateId)
+      .then(() => {
+        setTemplateId('');
+        refreshTemplates();
+      })
+      .catch(err => console.error(err));
+  };
+
+  const importFile = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parsePromptTemplateImport(await file.text());
+      await Promise.all(imported.map(savePromptTemplate));
+      refreshTemplates();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-800 bg-gray-900/60 p-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={templateId}
+          onChange={(e) => loadTemplate(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-lg p-1.5 text-xs text-gray-300 focus:outline-none"
+        >
+          <option value="">Templates…</option>
+          {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+        </select>
+        <button onClick={saveTemplate} className="text-xs text-purple-300 hover:text-purple-200">Save</button>
+        <button onClick={removeTemplate} disabled={!templateId} className="text-xs text-gray-500 hover:text-red-300 disabled:opacity-40">
+          Delete
+        </button>
+      </div>
+
+      {FIELDS.map(({ key, label, placeholder, presets }) => (
+        <label key={key} className="block space-y-1">
+          <span className="text-[11px] text-gray-400">{label}</span>
+          <input
+            value={fields[key]}
+            onChange={(e) => setFields(prev => ({ ...prev, [key]: e.target.value }))}
+            placeholder={placeholder}
+            list={presets ? `prompt-presets-${key}` : undefined}
+            className={inputClass}
+          />
+          {presets && (
+            <datalist id={`prompt-presets-${key}`}>
+              {presets.map(preset => <option key={preset} value={preset} />)}
+            </datalist>
+          )}
+        </label>
+      ))}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onApply(composed)}
+          disabled={!composed}
+          className="flex-1 py-1.5 rounded-lg bg-purple-600/30 border border-purple-500/50 text-xs font-medium text-purple-200 hover:bg-purple-600/40 disabled:opacity-40"
+        >
+          Use as prompt
+        </button>
+        <button
+          onClick={() => exportPromptTemplates(templates)}
+          className="text-[11px] text-gray-500 hover:text-white"
+        >
+          Export
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="text-[11px] text-gray-500 hover:text-white">
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PromptBuilder;
@@ -0,0 +1,56 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '../utils/textDiff';
+
+interface PromptSuggestionProps {
+  draft: string;
+  suggestion: string;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const PromptSuggestion: React.FC<PromptSuggestionProps> = ({ draft, suggestion, onAccept, onDiscard }) => {
+  const segments = useMemo(() => diffWords(draft, suggestion), [draft, suggestion]);
+
+  return (
+    <div className="space-y-2 rounded-lg border border-purple-500/40 bg-purple-950/20 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-purple-300">Suggested prompt</span>
+        <span className="text-[10px] text-gray-500">
+          <span className="text-emerald-300">added</span> / <span className="text-red-300 line-through">removed</span>
+        </span>
+      </div>
+      <p className="text-xs leading-relaxed text-gray-300 whitespace-pre-wrap">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={
+              segment.type === 'added'
+                ? 'bg-emerald-500/15 text-emerald-200'
+                : segment.type === 'removed'
+                  ? 'bg-red-500/10 text-red-300/80 line-through'
+                  : ''
+            }
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={onAccept}
+          className="flex-1 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 text-xs font-medium text-white"
+        >
+          Accept
+        </button>
+        <button
+          onClick={onDiscard}
+          className="flex-1 py-1.5 rounded-lg border border-gray-700 text-xs text-gray-300 hover:bg-gray-800"
+        >
+          Keep my draft
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptSuggestion;
@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GenerationRecord, Sequence } from '../types';
+import { isGenerationActive } from '../utils/generationQueue';
+import { renderClips } from '../utils/videoUtils';
+
+interface SequenceTimelineProps {
+  sequence: Sequence;
+  records: GenerationRecord[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onEdit: (sequence: Sequence) => void;
+  onDelete: (id: string) => void;
+}
+
+interface PlayableSegment {
+  record: GenerationRecord;
+  url: string;
+  trimStart: number;
+}
+
+const SequenceTimeline: React.FC<SequenceTimelineProps> = ({ sequence, records, selectedId, onSelect, onEdit, onDelete }) => {
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Two stacked players: one is visible while the other preloads the next segment
+  const playerRefs = [useRef<HTMLVideoElement>(null), useRef<HTMLVideoElement>(null)];
+
+  const segments = sequence.segments
+    .map(segment => ({ segment, record: records.find(record => record.id === segment.generationId) }))
+    .filter((entry): entry is { segment: typeof entry.segment; record: GenerationRecord } => !!entry.record);
+
+  const isComplete = segments.length > 0 && segments.every(({ record }) => !!record.videoBlob);
+  // Records update on every progress tick; only rebuild URLs when the clips themselves change
+  const playableKey = isComplete ? segments.map(({ segment }) => `${segment.generationId}@${segment.trimStart}`).join('|') : '';
+
+  const playable = useMemo<PlayableSegment[]>(() => {
+    if (!isComplete) return [];
+    return segments.map(({ segment, record }) => ({
+      record,
+      url: URL.createObjectURL(record.videoBlob!),
+      trimStart: segment.trimStart,
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playableKey]);
+
+  useEffect(() => {
+    return () => playable.forEach(segment => URL.revokeObjectURL(segment.url));
+  }, [playable]);
+
+  const loadInto = (player: HTMLVideoElement | null, segment: PlayableSegment | undefined) => {
+    if (!player || !segment) return;
+    player.src = segment.url;
+    player.currentTime = segment.trimStart;
+  };
+
+  const playFrom = (index: number) => {
+    const segment = playable[index];
+    if (!segment) {
+      setPlayingIndex(null);
+      return;
+    }
+    const player = playerRefs[index % 2].current;
+    if (!player) return;
+    // The segment may already be preloaded by the previous step
+    if (player.src !== segment.url) loadInto(player, segment);
+    player.play();
+    setPlayingIndex(index);
+    loadInto(playerRefs[(index + 1) % 2].current, playable[index + 1]);
+  };
+
+  const stopPlayback = () => {
+    playerRefs.forEach(ref => ref.current?.pause());
+    setPlayingIndex(null);
+  };
+
+  const exportSequence = async () => {
+    setExportError(null);
+    setExportProgress(0);
+    try {
+      const blob = await renderClips(
+        playable.map(segment => ({ blob: segment.record.videoBlob!, start: segment.trimStart })),
+        { onProgress: setExportProgress },
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `veo-sequence-${sequence.id}.${blob.type.includes('mp4') ? 'mp4' : 'webm'}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      console.error(err);
+      setExportError(err.message || 'Export failed.');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 bg-gray-900/50 p-6 rounded-2xl border border-gray-800">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-200">Sequence</h3>
+          <p className="text-xs text-gray-500">{segments.length} segment{segments.length === 1 ? '' : 's'}</p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => playingIndex === null ? playFrom(0) : stopPlayback()}
+            disabled={!isComplete}
+            className="px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {playingIndex === null ? 'Play All' : 'Stop'}
+          </button>
+          <button
+            onClick={exportSequence}
+            disabled={!isComplete || exportProgress !== null}
+            className="px-3 py-1.5 rounded-lg bg-purple-600/30 border border-purple-500/50 text-purple-200 hover:bg-purple-600/40 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {exportProgress === null ? 'Export' : `Exporting ${Math.round(exportProgress * 100)}%`}
+          </button>
+          <button
+            onClick={() => onEdit(sequence)}
+            disabled={!isComplete}
+            title="Open the segments in the editor to trim, crossfade and narrate them"
+            className="px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => onDelete(sequence.id)}
+            className="px-3 py-1.5 rounded-lg border border-red-900/60 text-red-300 hover:bg-red-900/30"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {isComplete && (
+        <div className={`relative w-full aspect-video bg-black rounded-lg overflow-hidden ${playingIndex === null ? 'hidden' : ''}`}>
+          {playerRefs.map((ref, slot) => (
+            <video
+              key={slot}
+              ref={ref}
+              playsInline
+              onEnded={() => playingIndex !== null && playingIndex % 2 === slot && playFrom(playingIndex + 1)}
+              className={`absolute inset-0 w-full h-full object-contain ${playingIndex !== null && playingIndex % 2 === slot ? 'opacity-100' : 'opacity-0'}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {segments.map(({ record }, index) => (
+          <button
+            key={record.id}
+            onClick={() => onSelect(record.id)}
+            className={`shrink-0 w-40 text-left rounded-lg border p-2 space-y-1 transition-colors ${
+              record.id === selectedId ? 'border-purple-500 bg-purple-900/10' : playingIndex === index ? 'border-cyan-500' : 'border-gray-800 hover:border-gray-600'
+            }`}
+          >
+            <span className="block text-[11px] font-mono text-gray-500">#{index + 1}</span>
+            <span className="block text-xs text-gray-300 line-clamp-2">{record.config.prompt || 'No prompt'}</span>
+            <span className={`block text-[11px] ${record.status === 'failed' ? 'text-red-300' : isGenerationActive(record) ? 'text-purple-300' : 'text-gray-500'}`}>
+              {record.status === 'failed' ? 'Failed' : isGenerationActive(record) ? record.statusMessage : 'Ready'}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {exportError && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">{exportError}</div>
+      )}
+    </div>
+  );
+};
+
+export default SequenceTimeline;
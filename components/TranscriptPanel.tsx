@@ -0,0 +1,123 @@
+import React, { useEffect, useRef } from 'react';
+import { ConversationRecord, LiveRecording, ToolInvocationStatus, TranscriptTurn } from '../types';
+import { RecordingLayout } from '../utils/conversationRecorder';
+import { downloadRecording } from '../utils/recordingStore';
+import { downloadTranscript, TranscriptFormat } from '../utils/transcript';
+
+interface TranscriptPanelProps {
+  conversation: ConversationRecord | null;
+  recording?: LiveRecording | null;
+  isLive: boolean;
+  onClose?: () => void;
+}
+
+const EXPORT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'srt', label: 'SRT' },
+];
+
+const RECORDING_LAYOUTS: { layout: RecordingLayout; label: string }[] = [
+  { layout: 'stereo', label: 'WAV stereo' },
+  { layout: 'mono', label: 'WAV mono' },
+];
+
+const TOOL_STATUS_STYLES: Record<ToolInvocationStatus, string> = {
+  running: 'text-amber-300',
+  succeeded: 'text-emerald-300',
+  failed: 'text-red-300',
+  cancelled: 'text-gray-500',
+};
+
+const ToolTurn: React.FC<{ turn: TranscriptTurn }> = ({ turn }) => {
+  const invocation = turn.toolInvocation!;
+  return (
+    <div className="mx-auto w-full max-w-[90%] rounded-lg border border-gray-800 bg-gray-900/70 px-3 py-2 font-mono text-[11px] space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300">
+          <span className="text-purple-300">tool</span> {invocation.name}
+        </span>
+        <span className={TOOL_STATUS_STYLES[invocation.status]}>{invocation.status}</span>
+      </div>
+      {Object.keys(invocation.args).length > 0 && (
+        <pre className="text-gray-500 whitespace-pre-wrap break-all">{JSON.stringify(invocation.args)}</pre>
+      )}
+      {invocation.result && (
+        <pre className="text-gray-300 whitespace-pre-wrap break-all">{JSON.stringify(invocation.result, null, 2)}</pre>
+      )}
+    </div>
+  );
+};
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ conversation, recording, isLive, onClose }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const turns = conversation?.turns ?? [];
+
+  // Follow the conversation as it grows
+  useEffect(() => {
+    if (isLive && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [turns, isLive]);
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-gray-600 uppercase tracking-widest">
+          {isLive ? 'Live Transcript' : conversation ? `Transcript • ${new Date(conversation.startedAt).toLocaleString()}` : 'Transcript'}
+        </h3>
+        {conversation && (turns.length > 0 || recording) && (
+          <div className="flex items-center gap-1 text-[11px]">
+            {recording && RECORDING_LAYOUTS.map(({ layout, label }) => (
+              <button
+                key={layout}
+                onClick={() => downloadRecording(recording, layout).catch(err => console.error(err))}
+                title={layout === 'stereo' ? 'You on the left channel, Gemini on the right' : 'Both voices mixed together'}
+                className="px-2 py-0.5 rounded border border-red-900/60 text-red-300/80 hover:text-red-200 hover:bg-red-950/40"
+              >
+                {label}
+              </button>
+            ))}
+            {turns.length > 0 && EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => downloadTranscript(conversation, format)}
+                className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800"
+              >
+                {label}
+              </button>
+            ))}
+            {!isLive && onClose && (
+              <button onClick={onClose} className="ml-1 px-2 py-0.5 text-gray-500 hover:text-white">Close</button>
+            )}
+          </div>
+        )}
+      </div>
+      <div ref={scrollRef} className="bg-black/30 rounded-lg p-3 h-72 overflow-y-auto border border-gray-800 space-y-3">
+        {turns.length === 0 && (
+          <span className="text-xs text-gray-500 opacity-70">
+            {isLive ? 'Start talking — both sides of the conversation will appear here.' : 'Nothing was said in this conversation.'}
+          </span>
+        )}
+        {turns.map(turn => turn.toolInvocation ? <ToolTurn key={turn.id} turn={turn} /> : (
+          <div key={turn.id} className={`flex ${turn.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm ${
+                turn.speaker === 'user'
+                  ? 'bg-cyan-500/15 text-cyan-50 rounded-br-sm'
+                  : 'bg-gray-800/80 text-gray-100 rounded-bl-sm'
+              } ${turn.isFinal ? '' : 'opacity-80'}`}
+            >
+              <p className="whitespace-pre-wrap">{turn.text}</p>
+              <span className="block mt-1 text-[10px] text-gray-500 font-mono">
+                {turn.speaker === 'user' ? 'You' : 'Gemini'}{turn.isTyped && ' (typed)'} • {new Date(turn.startedAt).toLocaleTimeString()}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
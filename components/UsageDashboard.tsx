@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetLimits, LiveTokenKind, PriceTable, UsageRecord } from '../types';
+import { LIVE_MODELS } from '../utils/personaStore';
+import {
+  clearUsage,
+  DailyUsage,
+  dayKey,
+  formatUsd,
+  getBudgetLimits,
+  getPriceTable,
+  LIVE_TOKEN_KINDS,
+  listUsage,
+  resetPriceTable,
+  setBudgetLimits,
+  setPriceTable,
+  summarizeByDay,
+} from '../utils/usageStore';
+import { VEO_MODELS } from '../utils/veoRequest';
+
+const TOKEN_KIND_LABELS: Record<LiveTokenKind, string> = {
+  inputText: 'Text in',
+  inputAudio: 'Audio/video in',
+  outputText: 'Text out',
+  outputAudio: 'Audio out',
+};
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-emerald-500';
+
+const formatTokens = (count: number) => {
+  if (count >= 1e6) return `${(count / 1e6).toFixed(1)}M`;
+  if (count >= 1e3) return `${(count / 1e3).toFixed(1)}k`;
+  return String(count);
+};
+
+const sumTokens = (tokens: Record<LiveTokenKind, number>, kinds: LiveTokenKind[]) =>
+  kinds.reduce((sum, kind) => sum + tokens[kind], 0);
+
+// Blank means no limit
+const parseLimit = (value: string) => value.trim() === '' ? null : Math.max(0, Number(value));
+
+const SummaryCard: React.FC<{ label: string; value: string; detail?: string; limit?: number | null; spent?: number }> = ({
+  label,
+  value,
+  detail,
+  limit,
+  spent = 0,
+}) => {
+  const share = limit ? Math.min(1, spent / limit) : 0;
+  return (
+    <div className="rounded-xl border border-gray-800 bg-gray-900/40 p-4 space-y-1">
+      <p className="text-xs font-bold text-gray-600 uppercase tracking-widest">{label}</p>
+      <p className="text-2xl font-semibold text-white">{value}</p>
+      {detail && <p className="text-xs text-gray-500">{detail}</p>}
+      {limit != null && (
+        <div className="pt-1 space-y-1">
+          <div className="h-1.5 rounded-full bg-gray-800 overflow-hidden">
+            <div
+              className={`h-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-400' : 'bg-emerald-500'}`}
+              style={{ width: `${share * 100}%` }}
+            />
+          </div>
+          <p className="text-[11px] text-gray-500">of {formatUsd(limit)} budget</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Spend across both studios, estimated from the usage recorded in this
+ * browser and the editable price table.
+ */
+const UsageDashboard: React.FC = () => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [prices, setPrices] = useState<PriceTable>(getPriceTable);
+  const [budget, setBudget] = useState<BudgetLimits>(getBudgetLimits);
+  const [isEditingPrices, setIsEditingPrices] = useState(false);
+
+  const refresh = () => {
+    listUsage().then(setRecords).catch(err => console.error(err));
+  };
+
+  useEffect(refresh, []);
+
+  const days = summarizeByDay(records, prices);
+  const today = days.find(day => day.day === dayKey(Date.now()));
+  const month = dayKey(Date.now()).slice(0, 7);
+  const monthDays = days.filter(day => day.day.startsWith(month));
+  const monthly = monthDays.reduce(
+    (total, day) => ({
+      cost: total.cost + day.cost,
+      veoVideos: total.veoVideos + day.veoVideos,
+      veoSeconds: total.veoSeconds + day.veoSeconds,
+      veoFailed: total.veoFailed + day.veoFailed,
+      liveSessions: total.liveSessions + day.liveSessions,
+      liveTokens: total.liveTokens + sumTokens(day.liveTokens, LIVE_TOKEN_KINDS),
+    }),
+    { cost: 0, veoVideos: 0, veoSeconds: 0, veoFailed: 0, liveSessions: 0, liveTokens: 0 },
+  );
+
+  // Models seen in the history stay priceable even when they aren't built in
+  const veoModels = [...new Set([...VEO_MODELS, ...Object.keys(prices.veo), ...records.flatMap(r => r.kind === 'veo' ? [r.model] : [])])];
+  const liveModels = [...new Set([...LIVE_MODELS, ...Object.keys(prices.live), ...records.flatMap(r => r.kind === 'live' ? [r.model] : [])])];
+
+  const updateBudget = (patch: Partial<BudgetLimits>) => {
+    const next = { ...budget, ...patch };
+    setBudget(next);
+    setBudgetLimits(next);
+  };
+
+  const updatePrices = (next: PriceTable) => {
+    setPrices(next);
+    setPriceTable(next);
+  };
+
+  const setVeoPrice = (model: string, value: string) => {
+    updatePrices({ ...prices, veo: { ...prices.veo, [model]: Math.max(0, Number(value)) } });
+  };
+
+  const setLivePrice = (model: string, kind: LiveTokenKind, value: string) => {
+    const current = prices.live[model] ?? { inputText: 0, inputAudio: 0, outputText: 0, outputAudio: 0 };
+    updatePrices({ ...prices, live: { ...prices.live, [model]: { ...current, [kind]: Math.max(0, Number(value)) } } });
+  };
+
+  const restoreDefaultPrices = () => {
+    resetPriceTable();
+    setPrices(getPriceTable());
+  };
+
+  const clearHistory = () => {
+    if (!window.confirm('Delete all recorded usage? Generations and conversations are kept.')) return;
+    clearUsage().then(refresh).catch(err => console.error(err));
+  };
+
+  const renderDay = (day: DailyUsage) => (
+    <tr key={day.day} className="border-t border-gray-800">
+      <td className="py-2 pr-4 font-mono text-gray-300">{day.day}</td>
+      <td className="py-2 pr-4">{day.veoVideos}{day.veoFailed > 0 && <span className="text-red-300"> ({day.veoFailed} failed)</span>}</td>
+      <td className="py-2 pr-4">{day.veoSeconds}s</td>
+      <td className="py-2 pr-4">{day.liveSessions}</td>
+      <td className="py-2 pr-4">{formatTokens(sumTokens(day.liveTokens, ['inputText', 'inputAudio']))}</td>
+      <td className="py-2 pr-4">{formatTokens(sumTokens(day.liveTokens, ['outputText', 'outputAudio']))}</td>
+      <td className="py-2 text-right font-medium text-white">{formatUsd(day.cost)}</td>
+    </tr>
+  );
+
+  return (
+    <div className="flex flex-col h-full w-full max-w-5xl mx-auto p-4 md:p-8 space-y-8">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-emerald-400 to-cyan-400 bg-clip-text text-transparent">
+          Usage &amp; Costs
+        </h2>
+        <p className="text-gray-400">Estimated from usage recorded in this browser. Check current pricing before relying on it.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard label="Today" value={formatUsd(today?.cost ?? 0)} limit={budget.daily} spent={today?.cost ?? 0} />
+        <SummaryCard label="This month" value={formatUsd(monthly.cost)} limit={budget.monthly} spent={monthly.cost} />
+        <SummaryCard
+          label="Veo this month"
+          value={`${monthly.veoSeconds}s`}
+          detail={`${monthly.veoVideos} video${monthly.veoVideos === 1 ? '' : 's'}${monthly.veoFailed > 0 ? ` • ${monthly.veoFailed} failed` : ''}`}
+        />
+        <SummaryCard
+          label="Live this month"
+          value={formatTokens(monthly.liveTokens)}
+          detail={`tokens over ${monthly.liveSessions} session${monthly.liveSessions === 1 ? '' : 's'}`}
+        />
+      </div>
+
+      <div className="rounded-xl border border-gray-800 bg-gray-900/40 p-4 space-y-3">
+        <h3 className="text-xs font-bold text-gray-600 uppercase tracking-widest">Budget</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-gray-400">
+          <label className="space-y-1">
+            <span>Daily limit (USD)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={budget.daily ?? ''}
+              onChange={(e) => updateBudget({ daily: parseLimit(e.target.value) })}
+              placeholder="No limit"
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Monthly limit (USD)</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={budget.monthly ?? ''}
+              onChange={(e) => updateBudget({ monthly: parseLimit(e.target.value) })}
+              placeholder="No limit"
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <p className="text-[11px] text-gray-500">
+          Starting a generation, batch or Live session that would cross a limit asks for confirmation first.
+        </p>
+      </div>
+
+      <div className="rounded-xl border border-gray-800 bg-gray-900/40 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold text-gray-600 uppercase tracking-widest">Daily totals</h3>
+          {records.length > 0 && (
+            <button onClick={clearHistory} className="text-xs text-gray-500 hover:text-red-300">Clear history</button>
+          )}
+        </div>
+        {days.length === 0 ? (
+          <p className="text-sm text-gray-500">No usage recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-gray-400">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2 pr-4 font-medium">Day</th>
+                  <th className="pb-2 pr-4 font-medium">Veo videos</th>
+                  <th className="pb-2 pr-4 font-medium">Video time</th>
+                  <th className="pb-2 pr-4 font-medium">Live sessions</th>
+                  <th className="pb-2 pr-4 font-medium">Tokens in</th>
+                  <th className="pb-2 pr-4 font-medium">Tokens out</th>
+                  <th className="pb-2 font-medium text-right">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody>{days.map(renderDay)}</tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-xl border border-gray-800 bg-gray-900/40 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold text-gray-600 uppercase tracking-widest">Prices</h3>
+          <div className="flex items-center gap-3 text-xs">
+            {isEditingPrices && (
+              <button onClick={restoreDefaultPrices} className="text-gray-500 hover:text-white">Restore defaults</button>
+            )}
+            <button onClick={() => setIsEditingPrices(!isEditingPrices)} className="text-emerald-300 hover:text-emerald-200">
+              {isEditingPrices ? 'Done' : 'Edit'}
+            </button>
+          </div>
+        </div>
+
+        {isEditingPrices && (
+          <div className="space-y-4 text-xs text-gray-400">
+            <div className="space-y-2">
+              <p className="text-gray-500">Veo, USD per second of video</p>
+              {veoModels.map(model => (
+                <label key={model} className="flex items-center gap-3">
+                  <span className="flex-1 font-mono truncate">{model}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={prices.veo[model] ?? 0}
+                    onChange={(e) => setVeoPrice(model, e.target.value)}
+                    className={`${inputClass} max-w-[6rem]`}
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2 overflow-x-auto">
+              <p className="text-gray-500">Live, USD per million tokens</p>
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-1 pr-2 font-medium">Model</th>
+                    {LIVE_TOKEN_KINDS.map(kind => <th key={kind} className="pb-1 pr-2 font-medium">{TOKEN_KIND_LABELS[kind]}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {liveModels.map(model => (
+                    <tr key={model}>
+                      <td className="py-1 pr-2 font-mono truncate max-w-[16rem]">{model}</td>
+                      {LIVE_TOKEN_KINDS.map(kind => (
+                        <td key={kind} className="py-1 pr-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={prices.live[model]?.[kind] ?? 0}
+                            onChange={(e) => setLivePrice(model, kind, e.target.value)}
+                            className={`${inputClass} min-w-[5rem]`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+        <p className="text-[11px] text-gray-500">
+          Videos Veo returns are counted, as are requests cancelled after Veo accepted them, since Veo may still finish and bill those.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -1,226 +1,419 @@
-import React, { useState, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { AspectRatio } from '../types';
-
-const VeoStudio: React.FC = () => {
-  const [prompt, setPrompt] = useState('Cinematic motion, high quality');
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
-  const [statusMessage, setStatusMessage] = useState('');
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  AppMode,
+  AspectRatio,
+  EditorClip,
+  ExtendMethod,
+  GenerationRecord,
+  PersonGeneration,
+  ReferenceImageType,
+  Sequence,
+  VeoDraft,
+  VeoDraftMode,
+  VeoGenerationMode,
+  VideoResolution,
+} from '../types';
+import { generationQueue, isGenerationActive } from '../utils/generationQueue';
+import { enhancePrompt } from '../utils/promptBuilder';
+import { classifyApiError } from '../utils/resilience';
+import { applyVeoLinkSettings, buildShareUrl, NavigateOptions, VeoLinkSettings, VeoRoute } from '../utils/router';
+import { deleteSequence, extendClip, findSequenceFor, listSequences } from '../utils/sequenceStore';
+import { confirmWithinBudget, estimateVeoCost } from '../utils/usageStore';
+import { useObjectUrl } from '../utils/useObjectUrl';
+import { clipsFromSequence, createEditorClip } from '../utils/videoEditor';
+import { getVeoDraft, setVeoDraft } from '../utils/veoDraftStore';
+import {
+  GENERATION_MODE_LABELS,
+  MAX_REFERENCE_IMAGES,
+  PERSON_GENERATION_LABELS,
+  VEO_MODEL_CAPABILITIES,
+  VEO_MODELS,
+  draftToConfig,
+  fitDraftOptions,
+  getAllowedDurations,
+  getAllowedPersonGeneration,
+  getAllowedResolutions,
+  getConfigPreviewImage,
+  getDraftPreviewImage,
+  getVeoDurationSeconds,
+  getVeoModel,
+  getVeoResolution,
+  validateVeoDraft,
+} from '../utils/veoRequest';
+import BatchPanel from './BatchPanel';
+import ExtendClipPanel from './ExtendClipPanel';
+import GenerationGallery from './GenerationGallery';
+import ImageInput from './ImageInput';
+import PromptBuilder from './PromptBuilder';
+import PromptSuggestion from './PromptSuggestion';
+import SequenceTimeline from './SequenceTimeline';
+import VideoEditor from './VideoEditor';
+
+const GENERATION_MODES: VeoDraftMode[] = [
+  VeoGenerationMode.TEXT_TO_VIDEO,
+  VeoGenerationMode.IMAGE_TO_VIDEO,
+  VeoGenerationMode.FIRST_LAST_FRAME,
+  VeoGenerationMode.REFERENCE_IMAGES,
+];
+
+interface VeoStudioProps {
+  // Generation named in the URL
+  generationId?: string;
+  // Settings from a shared link, applied to the draft once
+  sharedSettings?: VeoLinkSettings;
+  onNavigate: (route: VeoRoute, options?: NavigateOptions) => void;
+}
+
+const VeoStudio: React.FC<VeoStudioProps> = ({ generationId, sharedSettings, onNavigate }) => {
+  const [draft, setDraft] = useState<VeoDraft>(getVeoDraft);
+  const [records, setRecords] = useState<GenerationRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(generationId ?? null);
+  const [sequences, setSequences] = useState<Sequence[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+  const [isMoreOptionsOpen, setIsMoreOptionsOpen] = useState(false);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editorClips, setEditorClips] = useState<EditorClip[]>([]);
+  const editorRef = useRef<HTMLDivElement>(null);
+  // The draft the suggestion was made from, kept so the diff stays stable while the user reads it
+  const [suggestion, setSuggestion] = useState<{ draft: string; text: string } | null>(null);
+
+  const { mode, prompt, aspectRatio } = draft;
+  const draftError = validateVeoDraft(draft);
+  const model = getVeoModel(draft);
+  const modelCapabilities = VEO_MODEL_CAPABILITIES[model];
+  const previewUrl = useObjectUrl(getDraftPreviewImage(draft));
+
+  const selectedRecord = records.find(record => record.id === selectedId) ?? null;
+  const generatedVideoUrl = useObjectUrl(selectedRecord?.videoBlob);
+  const recordImageUrl = useObjectUrl(selectedRecord ? getConfigPreviewImage(selectedRecord.config) : null);
+  const baseImageUrl = selectedRecord ? recordImageUrl : previewUrl;
+  const isGenerating = selectedRecord ? isGenerationActive(selectedRecord) : false;
+  const resultAspectRatio = selectedRecord?.config.aspectRatio ?? aspectRatio;
+  const selectedSequence = selectedId ? findSequenceFor(sequences, selectedId) : null;
+
+  const refreshSequences = () => {
+    listSequences().then(setSequences).catch(err => console.error(err));
+  };
+
+  useEffect(() => {
+    setVeoDraft(draft);
+  }, [draft]);
+
+  useEffect(() => {
+    generationQueue.load();
+    refreshSequences();
+    return generationQueue.subscribe(setRecords);
+  }, []);
+
+  // Follow the URL on back/forward and when a link is opened
+  useEffect(() => {
+    setSelectedId(generationId ?? null);
+  }, [generationId]);
+
+  // Mirror the selection into the URL so a refresh keeps it
+  useEffect(() => {
+    if (selectedId === (generationId ?? null)) return;
+    onNavigate({ mode: AppMode.VEO_STUDIO, generationId: selectedId ?? undefined }, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (!sharedSettings) return;
+    setDraft(prev => applyVeoLinkSettings(prev, sharedSettings));
+    setSelectedId(null);
+    // Drop the settings from the URL so later edits aren't overwritten on refresh
+    onNavigate({ mode: AppMode.VEO_STUDIO }, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sharedSettings]);
+
+  const updateDraft = (patch: Partial<VeoDraft>) => {
+    setDraft(prev => fitDraftOptions({ ...prev, ...patch }));
+    setError(null);
+  };
+
+  const selectImage = (patch: Partial<VeoDraft>) => {
+    updateDraft(patch);
+    setSelectedId(null);
+  };
+
+  const addReferenceImage = (file: File) => {
+    selectImage({ referenceImages: [...draft.referenceImages, { image: file, referenceType: 'ASSET' }] });
+  };
+
+  const updateReferenceImage = (index: number, patch: { image?: Blob; referenceType?: ReferenceImageType }) => {
+    updateDraft({
+      referenceImages: draft.referenceImages.map((reference, i) => i === index ? { ...reference, ...patch } : reference),
+    });
+  };
 
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const removeReferenceImage = (index: number) => {
+    updateDraft({ referenceImages: draft.referenceImages.filter((_, i) => i !== index) });
+  };
+
+  const setPrompt = (value: string) => updateDraft({ prompt: value });
+  const setAspectRatio = (value: AspectRatio) => updateDraft({ aspectRatio: value });
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setSelectedFile(file);
-      setPreviewUrl(URL.createObjectURL(file));
-      setGeneratedVideoUrl(null);
-      setError(null);
+  const enhance = async () => {
+    setError(null);
+    setIsEnhancing(true);
+    try {
+      const text = await enhancePrompt(prompt, getDraftPreviewImage(draft));
+      setSuggestion({ draft: prompt, text });
+    } catch (err: any) {
+      console.error(err);
+      setError(classifyApiError(err).userMessage);
+    } finally {
+      setIsEnhancing(false);
     }
   };
 
-  const checkApiKey = async () => {
-    // Check if running in the specific environment with window.aistudio
-    if (window.aistudio?.hasSelectedApiKey && window.aistudio?.openSelectKey) {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        try {
-            await window.aistudio.openSelectKey();
-            // Mitigation for race condition: Assume true after selection
-            return true;
-        } catch (error) {
-            console.error("API Key selection failed/cancelled", error);
-            return false;
-        }
-      }
-      return hasKey;
+  const copyShareLink = async () => {
+    const url = buildShareUrl({
+      mode: AppMode.VEO_STUDIO,
+      settings: {
+        mode,
+        aspectRatio,
+        prompt: prompt.trim(),
+        model: draft.model,
+        resolution: draft.resolution,
+        durationSeconds: draft.durationSeconds,
+        negativePrompt: draft.negativePrompt?.trim() || undefined,
+        seed: draft.seed,
+      },
+    });
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (err) {
+      console.error(err);
+      setError("Couldn't copy the link.");
     }
-    return true; // Fallback for other environments
+  };
+
+  const acceptSuggestion = () => {
+    if (!suggestion) return;
+    setPrompt(suggestion.text);
+    setSuggestion(null);
   };
 
   const generateVideo = async () => {
-    if (!selectedFile) {
-      setError('Please select an image first.');
+    if (draftError) {
+      setError(draftError);
       return;
     }
 
-    setIsGenerating(true);
-    setStatusMessage('Checking API Key...');
     setError(null);
-    setGeneratedVideoUrl(null);
+    const config = draftToConfig(draft);
+    if (!(await confirmWithinBudget(estimateVeoCost([config])))) return;
 
     try {
-      let hasKey = await checkApiKey();
-      if (!hasKey) {
-        throw new Error("API Key selection is required for Veo generation.");
-      }
-
-      setStatusMessage('Initializing Veo session...');
-      
-      // Convert file to base64
-      const base64Data = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-           const res = reader.result as string;
-           resolve(res.split(',')[1]);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(selectedFile);
-      });
-
-      setStatusMessage('Sending request to Gemini...');
-
-      let ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      let operation;
-
-      try {
-          operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt: prompt,
-            image: {
-              imageBytes: base64Data,
-              mimeType: selectedFile.type,
-            },
-            config: {
-              numberOfVideos: 1,
-              resolution: '720p', // Veo fast preview supports 720p
-              aspectRatio: aspectRatio,
-            }
-          });
-      } catch (err: any) {
-          // Retry logic if entity not found (often due to stale key or project issues)
-          if (err.message && (err.message.includes('Requested entity was not found') || err.message.includes('403'))) {
-              console.log("Caught entity not found or 403, triggering re-selection...");
-              if (window.aistudio?.openSelectKey) {
-                  await window.aistudio.openSelectKey();
-                  // Re-initialize client with potentially new key env
-                  ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                  operation = await ai.models.generateVideos({
-                    model: 'veo-3.1-fast-generate-preview',
-                    prompt: prompt,
-                    image: {
-                      imageBytes: base64Data,
-                      mimeType: selectedFile.type,
-                    },
-                    config: {
-                      numberOfVideos: 1,
-                      resolution: '720p',
-                      aspectRatio: aspectRatio,
-                    }
-                  });
-              } else {
-                  throw err;
-              }
-          } else {
-              throw err;
-          }
-      }
-
-      setStatusMessage('Dreaming... This may take a moment.');
-
-      // Polling loop
-      while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5 seconds
-        setStatusMessage('Still dreaming... generating pixels...');
-        operation = await ai.operations.getVideosOperation({operation: operation});
-      }
-
-      if (operation.error) {
-        throw new Error(operation.error.message || 'Video generation failed.');
-      }
-
-      const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-      if (!videoUri) {
-        throw new Error('No video URI returned.');
-      }
-
-      setStatusMessage('Downloading video...');
-      
-      // Robustly append API key to the URL
-      // API URIs might not have query params yet, so we must check before appending with & or ?
-      const separator = videoUri.includes('?') ? '&' : '?';
-      // Fallback to empty string if process.env.API_KEY is undefined to avoid literal "undefined"
-      const apiKeyParam = process.env.API_KEY ? `key=${process.env.API_KEY}` : ''; 
-      const videoUrlWithKey = apiKeyParam ? `${videoUri}${separator}${apiKeyParam}` : videoUri;
-      
-      const videoRes = await fetch(videoUrlWithKey);
-      if (!videoRes.ok) {
-        throw new Error(`Failed to download video file (${videoRes.status}).`);
-      }
-      
-      const videoBlob = await videoRes.blob();
-      const localVideoUrl = URL.createObjectURL(videoBlob);
-      
-      setGeneratedVideoUrl(localVideoUrl);
-      setStatusMessage('Complete!');
+      const record = await generationQueue.enqueue(config);
+      setSelectedId(record.id);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "An unexpected error occurred.");
+    }
+  };
 
+  const rerunGeneration = async (id: string) => {
+    const source = records.find(record => record.id === id);
+    if (source && !(await confirmWithinBudget(estimateVeoCost([source.config])))) return;
+    try {
+      const record = await generationQueue.rerun(id);
+      setSelectedId(record.id);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "An unexpected error occurred.");
+    }
+  };
+
+  const extendSelected = async (nextPrompt: string, method: ExtendMethod) => {
+    if (!selectedRecord) return;
+    setError(null);
+    const mode = method === 'videoExtension' ? VeoGenerationMode.EXTEND_VIDEO : VeoGenerationMode.IMAGE_TO_VIDEO;
+    const estimate = estimateVeoCost([method === 'videoExtension' ? { mode } : { ...selectedRecord.config, mode }]);
+    if (!(await confirmWithinBudget(estimate))) return;
+    try {
+      const { record } = await extendClip(selectedRecord, nextPrompt, method);
+      refreshSequences();
+      setSelectedId(record.id);
     } catch (err: any) {
       console.error(err);
       setError(err.message || "An unexpected error occurred.");
-    } finally {
-      setIsGenerating(false);
     }
   };
 
+  const removeSequence = (id: string) => {
+    deleteSequence(id).then(refreshSequences).catch(err => console.error(err));
+  };
+
+  const openFromBatch = (id: string) => {
+    setSelectedId(id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const openEditorWith = (clips: EditorClip[]) => {
+    setEditorClips(prev => [...prev, ...clips]);
+    setIsEditorOpen(true);
+    // Wait for the section to render before scrolling to it
+    setTimeout(() => editorRef.current?.scrollIntoView({ behavior: 'smooth' }), 0);
+  };
+
+  const editSequence = (sequence: Sequence) => openEditorWith(clipsFromSequence(sequence));
+
+  const cancelGeneration = (id: string) => {
+    generationQueue.cancel(id).catch(err => console.error(err));
+  };
+
+  const deleteGeneration = (id: string) => {
+    if (id === selectedId) setSelectedId(null);
+    generationQueue.remove(id).catch(err => console.error(err));
+  };
+
   return (
     <div className="flex flex-col h-full w-full max-w-6xl mx-auto p-4 md:p-8 space-y-8">
       <div className="text-center space-y-2">
         <h2 className="text-3xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">
           Veo Video Creator
         </h2>
-        <p className="text-gray-400">Bring your images to life with Veo 3.1</p>
+        <p className="text-gray-400">Bring your prompts and images to life with Veo 3.1</p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
         {/* Controls Column */}
         <div className="lg:col-span-4 space-y-6 bg-gray-900/50 p-6 rounded-2xl border border-gray-800 backdrop-blur-sm">
           
-          {/* Image Upload */}
+          {/* Generation Mode */}
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-gray-300">Source Image</label>
-            <div 
-              onClick={() => fileInputRef.current?.click()}
-              className="border-2 border-dashed border-gray-700 hover:border-purple-500 rounded-xl p-8 flex flex-col items-center justify-center cursor-pointer transition-colors group"
-            >
-              <input 
-                type="file" 
-                ref={fileInputRef} 
-                onChange={handleFileChange} 
-                accept="image/*" 
-                className="hidden" 
+            <label className="block text-sm font-medium text-gray-300">Generation Mode</label>
+            <div className="grid grid-cols-2 gap-2">
+              {GENERATION_MODES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => updateDraft({ mode: option })}
+                  className={`p-2 rounded-lg border text-xs font-medium transition-all ${mode === option ? 'bg-purple-600/20 border-purple-500 text-purple-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                >
+                  {GENERATION_MODE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Image Inputs */}
+          {mode === VeoGenerationMode.IMAGE_TO_VIDEO && (
+            <ImageInput label="Source Image" image={draft.image} aspectRatio={aspectRatio} acceptsPaste onChange={file => selectImage({ image: file })} />
+          )}
+
+          {mode === VeoGenerationMode.FIRST_LAST_FRAME && (
+            <div className="grid grid-cols-2 gap-3">
+              {/* A page-wide paste fills the first frame, then the last */}
+              <ImageInput
+                label="First Frame"
+                compact
+                image={draft.firstFrame}
+                aspectRatio={aspectRatio}
+                acceptsPaste={!draft.firstFrame}
+                onChange={file => selectImage({ firstFrame: file })}
               />
-              {previewUrl ? (
-                 <div className="relative w-full aspect-video rounded-lg overflow-hidden">
-                    <img src={previewUrl} alt="Preview" className="w-full h-full object-cover" />
-                    <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                        <span className="text-white text-sm font-medium">Change Image</span>
-                    </div>
-                 </div>
-              ) : (
-                <div className="text-center space-y-2">
-                    <svg className="w-10 h-10 text-gray-500 mx-auto group-hover:text-purple-400 transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                    </svg>
-                    <p className="text-sm text-gray-400">Click to upload image</p>
+              <ImageInput
+                label="Last Frame"
+                compact
+                image={draft.lastFrame}
+                aspectRatio={aspectRatio}
+                acceptsPaste={!!draft.firstFrame}
+                onChange={file => selectImage({ lastFrame: file })}
+              />
+            </div>
+          )}
+
+          {mode === VeoGenerationMode.REFERENCE_IMAGES && (
+            <div className="space-y-3">
+              {draft.referenceImages.map((reference, index) => (
+                <div key={index} className="space-y-1">
+                  <ImageInput
+                    label={`Reference ${index + 1}`}
+                    compact
+                    image={reference.image}
+                    aspectRatio={aspectRatio}
+                    cropOptional
+                    onChange={file => updateReferenceImage(index, { image: file })}
+                    onRemove={() => removeReferenceImage(index)}
+                  />
+                  <select
+                    value={reference.referenceType}
+                    onChange={(e) => updateReferenceImage(index, { referenceType: e.target.value as ReferenceImageType })}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:outline-none"
+                  >
+                    <option value="ASSET">Asset (subject, object, scene)</option>
+                    <option value="STYLE">Style (look and feel)</option>
+                  </select>
                 </div>
+              ))}
+              {draft.referenceImages.length < MAX_REFERENCE_IMAGES && (
+                <ImageInput
+                  label={draft.referenceImages.length === 0 ? 'Reference Images' : 'Add Reference'}
+                  compact
+                  image={null}
+                  aspectRatio={aspectRatio}
+                  acceptsPaste
+                  cropOptional
+                  onChange={addReferenceImage}
+                />
               )}
             </div>
-          </div>
+          )}
 
           {/* Prompt */}
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-gray-300">Prompt (Optional)</label>
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-300">
+                Prompt {mode === VeoGenerationMode.IMAGE_TO_VIDEO || mode === VeoGenerationMode.FIRST_LAST_FRAME ? '(Optional)' : ''}
+              </label>
+              <div className="flex items-center gap-3 text-xs">
+                <button
+                  onClick={copyShareLink}
+                  title="Link to this mode, prompt and generation options. Images aren't included."
+                  className="text-gray-400 hover:text-white"
+                >
+                  {isLinkCopied ? 'Copied' : 'Copy link'}
+                </button>
+                <button
+                  onClick={() => setIsBuilderOpen(!isBuilderOpen)}
+                  className={isBuilderOpen ? 'text-purple-300' : 'text-gray-400 hover:text-white'}
+                >
+                  Builder
+                </button>
+                <button
+                  onClick={enhance}
+                  disabled={isEnhancing || (!prompt.trim() && !getDraftPreviewImage(draft))}
+                  className="text-purple-300 hover:text-purple-200 disabled:opacity-40"
+                >
+                  {isEnhancing ? 'Enhancing…' : 'Enhance'}
+                </button>
+              </div>
+            </div>
+            {isBuilderOpen && (
+              <PromptBuilder onApply={(composed) => { setPrompt(composed); setSuggestion(null); }} />
+            )}
             <textarea
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none h-24"
               placeholder="Describe the motion..."
             />
+            {suggestion && (
+              <PromptSuggestion
+                draft={suggestion.draft}
+                suggestion={suggestion.text}
+                onAccept={acceptSuggestion}
+                onDiscard={() => setSuggestion(null)}
+              />
+            )}
           </div>
 
           {/* Aspect Ratio */}
@@ -242,19 +435,144 @@ const VeoStudio: React.FC = () => {
             </div>
           </div>
 
+          {/* Model */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-300">Model</label>
+            <div className="grid grid-cols-2 gap-3">
+              {VEO_MODELS.map(option => {
+                const supportsMode = VEO_MODEL_CAPABILITIES[option].modes.includes(mode);
+                return (
+                  <button
+                    key={option}
+                    onClick={() => updateDraft({ model: option })}
+                    disabled={!supportsMode}
+                    title={supportsMode ? option : `${GENERATION_MODE_LABELS[mode]} isn't available on this model`}
+                    className={`p-3 rounded-lg border text-sm font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${model === option ? 'bg-purple-600/20 border-purple-500 text-purple-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                  >
+                    {VEO_MODEL_CAPABILITIES[option].label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Resolution and Duration */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-300">Resolution</label>
+              <select
+                value={getVeoResolution(draft)}
+                onChange={(e) => updateDraft({ resolution: e.target.value as VideoResolution })}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-gray-300 focus:outline-none"
+              >
+                {modelCapabilities?.resolutions.map(option => (
+                  <option key={option} value={option} disabled={!getAllowedResolutions(draft).includes(option)}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-300">Duration</label>
+              <select
+                value={getVeoDurationSeconds(draft)}
+                onChange={(e) => updateDraft({ durationSeconds: Number(e.target.value) })}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-gray-300 focus:outline-none"
+              >
+                {modelCapabilities?.durations.map(option => (
+                  <option key={option} value={option} disabled={!getAllowedDurations(draft).includes(option)}>
+                    {option} seconds
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {getVeoResolution(draft) === '1080p' && (
+            <p className="text-xs text-gray-500 -mt-3">1080p clips are always 8 seconds.</p>
+          )}
+
+          {/* More Options */}
+          <div className="space-y-3">
+            <button
+              onClick={() => setIsMoreOptionsOpen(!isMoreOptionsOpen)}
+              className={`text-xs ${isMoreOptionsOpen ? 'text-purple-300' : 'text-gray-400 hover:text-white'}`}
+            >
+              {isMoreOptionsOpen ? 'Fewer options' : 'More options'}
+            </button>
+            {isMoreOptionsOpen && (
+              <div className="space-y-3 text-xs">
+                <label className="block space-y-1">
+                  <span className="block font-medium text-gray-300">Negative prompt</span>
+                  <input
+                    type="text"
+                    value={draft.negativePrompt ?? ''}
+                    onChange={(e) => updateDraft({ negativePrompt: e.target.value })}
+                    placeholder="What to leave out, e.g. text overlays, blur"
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                  />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block space-y-1">
+                    <span className="block font-medium text-gray-300">Seed</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={draft.seed ?? ''}
+                      onChange={(e) => updateDraft({ seed: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      placeholder="Random"
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="block font-medium text-gray-300">People</span>
+                    <select
+                      value={draft.personGeneration ?? ''}
+                      onChange={(e) => updateDraft({ personGeneration: (e.target.value || undefined) as PersonGeneration | undefined })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-gray-300 focus:outline-none"
+                    >
+                      <option value="">Model default</option>
+                      {getAllowedPersonGeneration(mode).map(option => (
+                        <option key={option} value={option}>{PERSON_GENERATION_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <label
+                  className="flex items-center gap-2 text-gray-300"
+                  title={modelCapabilities?.optionalAudio ? undefined : 'This model always generates a soundtrack'}
+                >
+                  <input
+                    type="checkbox"
+                    checked={draft.generateAudio ?? true}
+                    disabled={!modelCapabilities?.optionalAudio}
+                    onChange={(e) => updateDraft({ generateAudio: e.target.checked })}
+                    className="accent-purple-500 disabled:opacity-40"
+                  />
+                  Generate audio
+                </label>
+              </div>
+            )}
+          </div>
+
           {/* Generate Button */}
           <button
             onClick={generateVideo}
-            disabled={isGenerating || !selectedFile}
+            disabled={!!draftError}
+            title={draftError ?? undefined}
             className={`w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] ${
-              isGenerating || !selectedFile
+              draftError
                 ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
                 : 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-500 hover:to-indigo-500 shadow-purple-900/30'
             }`}
           >
-            {isGenerating ? 'Generating...' : 'Generate Video'}
+            {isGenerating ? 'Queue Another' : 'Generate Video'}
           </button>
           
+          {draftError && !error && (
+            <p className="text-xs text-gray-500 text-center">{draftError}</p>
+          )}
+
           {error && (
             <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">
               {error}
@@ -267,24 +585,49 @@ const VeoStudio: React.FC = () => {
            {isGenerating && (
              <div className="absolute inset-0 z-10 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm">
                <div className="w-16 h-16 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-               <p className="text-purple-200 animate-pulse">{statusMessage}</p>
+               <p className="text-purple-200 animate-pulse">{selectedRecord?.statusMessage}</p>
+               <button
+                 onClick={() => selectedRecord && cancelGeneration(selectedRecord.id)}
+                 className="mt-4 px-4 py-1.5 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-800"
+               >
+                 Cancel
+               </button>
              </div>
            )}
            
            {generatedVideoUrl ? (
-             <div className="w-full h-full flex items-center justify-center">
+             <div className="w-full h-full flex flex-col items-center justify-center space-y-4">
                <video 
                 src={generatedVideoUrl} 
                 controls 
                 autoPlay 
                 loop 
-                className={`max-h-[600px] rounded-lg shadow-2xl ${aspectRatio === '9:16' ? 'max-w-sm' : 'w-full'}`}
+                className={`max-h-[600px] rounded-lg shadow-2xl ${resultAspectRatio === '9:16' ? 'max-w-sm' : 'w-full'}`}
                />
+               {selectedRecord && (
+                 <button
+                   onClick={() => openEditorWith([createEditorClip(selectedRecord.id)])}
+                   className="px-3 py-1.5 rounded-lg border border-gray-700 text-xs text-gray-300 hover:bg-gray-800"
+                 >
+                   Add to editor
+                 </button>
+               )}
+               {selectedRecord && <ExtendClipPanel key={selectedRecord.id} record={selectedRecord} onExtend={extendSelected} />}
+             </div>
+           ) : selectedRecord?.status === 'cancelled' ? (
+             <div className="text-center space-y-2 max-w-md">
+               <p className="text-lg font-medium text-gray-300">Generation cancelled</p>
+               <p className="text-sm text-gray-500">Re-run it from the library to try again.</p>
+             </div>
+           ) : selectedRecord?.status === 'failed' ? (
+             <div className="text-center space-y-2 max-w-md">
+               <p className="text-lg font-medium text-red-300">Generation failed</p>
+               <p className="text-sm text-red-200/80">{selectedRecord.error}</p>
              </div>
-           ) : previewUrl ? (
+           ) : baseImageUrl ? (
               <div className="text-center opacity-50">
                  <img 
-                    src={previewUrl} 
+                    src={baseImageUrl} 
                     className={`max-h-[400px] rounded-lg grayscale blur-[2px] transform scale-95 transition-all duration-700 ${isGenerating ? 'scale-100 blur-0 grayscale-0' : ''}`}
                     alt="Preview base"
                  />
@@ -298,11 +641,71 @@ const VeoStudio: React.FC = () => {
                   </svg>
                </div>
                <p className="text-lg font-medium">No video generated yet</p>
-               <p className="text-sm">Upload an image and configure settings to start.</p>
+               <p className="text-sm">Pick a mode, add a prompt or images and configure settings to start.</p>
              </div>
            )}
         </div>
       </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-200">Batch compare</h3>
+            <p className="text-xs text-gray-500">Run prompts × images × aspect ratios together and compare the results in lockstep.</p>
+          </div>
+          <button
+            onClick={() => setIsBatchOpen(!isBatchOpen)}
+            className="px-3 py-1.5 rounded-lg border border-gray-700 text-xs text-gray-300 hover:bg-gray-800"
+          >
+            {isBatchOpen ? 'Hide' : 'Open'}
+          </button>
+        </div>
+        {isBatchOpen && (
+          <BatchPanel
+            records={records}
+            initialPrompt={prompt}
+            initialImage={mode === VeoGenerationMode.IMAGE_TO_VIDEO ? draft.image : null}
+            initialAspectRatio={aspectRatio}
+            onSelect={openFromBatch}
+          />
+        )}
+      </div>
+
+      {selectedSequence && (
+        <SequenceTimeline
+          sequence={selectedSequence}
+          records={records}
+          selectedId={selectedId}
+          onSelect={setSelectedId}
+          onEdit={editSequence}
+          onDelete={removeSequence}
+        />
+      )}
+
+      <div ref={editorRef} className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-200">Editor</h3>
+            <p className="text-xs text-gray-500">Trim clips, join them with crossfades and lay a voice-over on top, then export one video.</p>
+          </div>
+          <button
+            onClick={() => setIsEditorOpen(!isEditorOpen)}
+            className="px-3 py-1.5 rounded-lg border border-gray-700 text-xs text-gray-300 hover:bg-gray-800"
+          >
+            {isEditorOpen ? 'Hide' : 'Open'}
+          </button>
+        </div>
+        {isEditorOpen && <VideoEditor records={records} clips={editorClips} onChange={setEditorClips} />}
+      </div>
+
+      <GenerationGallery
+        records={records}
+        selectedId={selectedId}
+        onSelect={setSelectedId}
+        onRerun={rerunGeneration}
+        onCancel={cancelGeneration}
+        onDelete={deleteGeneration}
+      />
     </div>
   );
 };
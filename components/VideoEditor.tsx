@@ -0,0 +1,449 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditorClip, GenerationRecord, LiveRecording } from '../types';
+import { downloadBlob } from '../utils/download';
+import { getRecording, listRecordings } from '../utils/recordingStore';
+import { useObjectUrl } from '../utils/useObjectUrl';
+import {
+  clampTrim,
+  clipLength,
+  createEditorClip,
+  CROSSFADE_OPTIONS,
+  getClipBlob,
+  startVoiceRecording,
+  videoKey,
+  VoiceRecording,
+} from '../utils/videoEditor';
+import { canExportAs, ExportFormat, extensionFor, getVideoDuration, renderClips, timelineLength } from '../utils/videoUtils';
+
+interface VideoEditorProps {
+  records: GenerationRecord[];
+  clips: EditorClip[];
+  onChange: (clips: EditorClip[]) => void;
+}
+
+type VoiceSource = 'none' | 'mic' | 'live';
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const VideoEditor: React.FC<VideoEditorProps> = ({ records, clips, onChange }) => {
+  // Source lengths, keyed by videoKey
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  const [selectedClipId, setSelectedClipId] = useState<string | null>(clips[0]?.id ?? null);
+  const [crossfade, setCrossfade] = useState(0.5);
+  const [format, setFormat] = useState<ExportFormat>(() => canExportAs('mp4') && !canExportAs('webm') ? 'mp4' : 'webm');
+  const [voiceSource, setVoiceSource] = useState<VoiceSource>('none');
+  const [micTake, setMicTake] = useState<Blob | null>(null);
+  const [isRecordingVoice, setIsRecordingVoice] = useState(false);
+  const [recordings, setRecordings] = useState<LiveRecording[]>([]);
+  const [recordingId, setRecordingId] = useState('');
+  const [voiceOffset, setVoiceOffset] = useState(0);
+  const [voiceVolume, setVoiceVolume] = useState(1);
+  const [clipVolume, setClipVolume] = useState(0.4);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const voiceRecordingRef = useRef<VoiceRecording | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  const recordFor = (clip: EditorClip) => records.find(record => record.id === clip.generationId);
+  const finishedRecords = records.filter(record => !!record.videoBlob);
+  const selectedClip = clips.find(clip => clip.id === selectedClipId) ?? null;
+  const previewUrl = useObjectUrl(selectedClip ? getClipBlob(recordFor(selectedClip), selectedClip.videoIndex) : null);
+  const micTakeUrl = useObjectUrl(micTake);
+
+  const lengths = clips.map(clip => clipLength(clip, durations[videoKey(clip)] ?? 0));
+  const hasAllDurations = clips.every(clip => durations[videoKey(clip)] !== undefined);
+  const totalLength = timelineLength(lengths, crossfade);
+
+  useEffect(() => {
+    clips.forEach(clip => {
+      const key = videoKey(clip);
+      const blob = getClipBlob(recordFor(clip), clip.videoIndex);
+      if (!blob || durations[key] !== undefined) return;
+      getVideoDuration(blob)
+        .then(duration => setDurations(prev => ({ ...prev, [key]: duration })))
+        .catch(err => console.error(err));
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clips, records]);
+
+  useEffect(() => {
+    if (voiceSource !== 'live') return;
+    listRecordings()
+      .then(list => {
+        setRecordings(list);
+        setRecordingId(prev => prev || list[0]?.id || '');
+      })
+      .catch(err => console.error(err));
+  }, [voiceSource]);
+
+  // Leaving the editor mid-take or mid-export shouldn't keep the mic or the render running
+  useEffect(() => {
+    return () => {
+      voiceRecordingRef.current?.cancel();
+      exportAbortRef.current?.abort();
+    };
+  }, []);
+
+  const updateClip = (id: string, patch: Partial<EditorClip>) => {
+    onChange(clips.map(clip => {
+      if (clip.id !== id) return clip;
+      const next = { ...clip, ...patch };
+      const duration = durations[videoKey(next)];
+      return duration === undefined ? next : clampTrim(next, duration);
+    }));
+  };
+
+  const moveClip = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= clips.length) return;
+    const next = [...clips];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeClip = (id: string) => {
+    if (id === selectedClipId) setSelectedClipId(null);
+    onChange(clips.filter(clip => clip.id !== id));
+  };
+
+  const addClip = (value: string) => {
+    const separator = value.lastIndexOf(':');
+    if (separator === -1) return;
+    const clip = createEditorClip(value.slice(0, separator), Number(value.slice(separator + 1)));
+    onChange([...clips, clip]);
+    setSelectedClipId(clip.id);
+  };
+
+  // Trim points taken from wherever the preview is paused
+  const setInPoint = () => {
+    if (selectedClip && previewRef.current) updateClip(selectedClip.id, { trimStart: previewRef.current.currentTime });
+  };
+
+  const setOutPoint = () => {
+    if (selectedClip && previewRef.current) updateClip(selectedClip.id, { trimEnd: previewRef.current.currentTime });
+  };
+
+  const keepPreviewInRange = () => {
+    const player = previewRef.current;
+    if (!player || !selectedClip || selectedClip.trimEnd === null) return;
+    if (player.currentTime >= selectedClip.trimEnd) {
+      player.pause();
+      player.currentTime = selectedClip.trimStart;
+    }
+  };
+
+  const toggleVoiceRecording = async () => {
+    setError(null);
+    if (voiceRecordingRef.current) {
+      const take = await voiceRecordingRef.current.stop();
+      voiceRecordingRef.current = null;
+      setIsRecordingVoice(false);
+      setMicTake(take);
+      return;
+    }
+    try {
+      voiceRecordingRef.current = await startVoiceRecording();
+      setIsRecordingVoice(true);
+    } catch (err) {
+      console.error(err);
+      setError('Microphone access is needed to record a voice-over.');
+    }
+  };
+
+  const loadVoiceOver = async (): Promise<Blob | null> => {
+    if (voiceSource === 'mic') return micTake;
+    if (voiceSource === 'live' && recordingId) return (await getRecording(recordingId))?.audio ?? null;
+    return null;
+  };
+
+  const exportEdit = async () => {
+    setError(null);
+    const sources = clips.map(clip => ({
+      blob: getClipBlob(recordFor(clip), clip.videoIndex),
+      start: clip.trimStart,
+      end: clip.trimEnd ?? undefined,
+    }));
+    if (sources.some(source => !source.blob)) {
+      setError('A clip\'s source video is no longer in the library. Remove it to export.');
+      return;
+    }
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress(0);
+    try {
+      const voiceAudio = await loadVoiceOver();
+      const blob = await renderClips(
+        sources.map(source => ({ ...source, blob: source.blob! })),
+        {
+          crossfadeSeconds: crossfade,
+          clipVolume: voiceAudio ? clipVolume : 1,
+          voiceOver: voiceAudio ? { audio: voiceAudio, offset: voiceOffset, volume: voiceVolume } : undefined,
+          format,
+          signal: controller.signal,
+          onProgress: setExportProgress,
+        },
+      );
+      downloadBlob(blob, `veo-edit-${new Date().toISOString().slice(0, 19)}.${extensionFor(blob)}`);
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') {
+        console.error(err);
+        setError(err.message || 'Export failed.');
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const isExporting = exportProgress !== null;
+  const voiceReady = voiceSource === 'none' || (voiceSource === 'mic' ? !!micTake && !isRecordingVoice : !!recordingId);
+
+  return (
+    <div className="space-y-5 bg-gray-900/50 p-6 rounded-2xl border border-gray-800">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-200">Timeline</h4>
+          <p className="text-xs text-gray-500">
+            {clips.length} clip{clips.length === 1 ? '' : 's'}
+            {clips.length > 0 && hasAllDurations && ` • ${formatSeconds(totalLength)}`}
+          </p>
+        </div>
+        <select
+          value=""
+          onChange={(e) => addClip(e.target.value)}
+          disabled={finishedRecords.length === 0}
+          className="bg-gray-800 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:outline-none max-w-xs disabled:opacity-40"
+        >
+          <option value="">Add clip…</option>
+          {finishedRecords.map(record => {
+            const count = record.videoBlobs?.length || 1;
+            return Array.from({ length: count }, (_, i) => (
+              <option key={`${record.id}:${i}`} value={`${record.id}:${i}`}>
+                {(record.config.prompt || 'No prompt').slice(0, 60)}{count > 1 ? ` (video ${i + 1})` : ''}
+              </option>
+            ));
+          })}
+        </select>
+      </div>
+
+      {clips.length === 0 ? (
+        <p className="text-sm text-gray-500">Add clips from the library, or open a sequence in the editor.</p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {clips.map((clip, index) => {
+            const record = recordFor(clip);
+            const duration = durations[videoKey(clip)];
+            return (
+              <div
+                key={clip.id}
+                onClick={() => setSelectedClipId(clip.id)}
+                className={`shrink-0 w-48 rounded-lg border p-2 space-y-2 cursor-pointer transition-colors ${
+                  clip.id === selectedClipId ? 'border-purple-500 bg-purple-900/10' : 'border-gray-800 hover:border-gray-600'
+                }`}
+              >
+                <div className="flex items-center justify-between text-[11px] text-gray-500">
+                  <span className="font-mono">#{index + 1}</span>
+                  <span>{duration !== undefined ? formatSeconds(clipLength(clip, duration)) : '…'}</span>
+                </div>
+                <p className={`text-xs line-clamp-2 ${record ? 'text-gray-300' : 'text-red-300'}`}>
+                  {record ? record.config.prompt || 'No prompt' : 'Missing from the library'}
+                </p>
+                <div className="grid grid-cols-2 gap-2 text-[11px] text-gray-400">
+                  <label className="space-y-0.5">
+                    <span className="block">In</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={Number(clip.trimStart.toFixed(2))}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => updateClip(clip.id, { trimStart: Number(e.target.value) || 0 })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded p-1 text-gray-200 focus:outline-none"
+                    />
+                  </label>
+                  <label className="space-y-0.5">
+                    <span className="block">Out</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={Number((clip.trimEnd ?? duration ?? 0).toFixed(2))}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => updateClip(clip.id, { trimEnd: Number(e.target.value) || null })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded p-1 text-gray-200 focus:outline-none"
+                    />
+                  </label>
+                </div>
+                <div className="flex items-center justify-between text-[11px]">
+                  <div className="flex gap-2">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); moveClip(index, -1); }}
+                      disabled={index === 0}
+                      className="text-gray-400 hover:text-white disabled:opacity-30"
+                    >
+                      Left
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); moveClip(index, 1); }}
+                      disabled={index === clips.length - 1}
+                      className="text-gray-400 hover:text-white disabled:opacity-30"
+                    >
+                      Right
+                    </button>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); removeClip(clip.id); }}
+                    className="text-gray-400 hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedClip && previewUrl && (
+        <div className="space-y-2">
+          <video
+            key={selectedClip.id}
+            ref={previewRef}
+            src={previewUrl}
+            controls
+            playsInline
+            onLoadedMetadata={(e) => { e.currentTarget.currentTime = selectedClip.trimStart; }}
+            onTimeUpdate={keepPreviewInRange}
+            className="w-full max-h-80 rounded-lg bg-black"
+          />
+          <div className="flex items-center gap-2 text-xs">
+            <button onClick={setInPoint} className="px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800">
+              Set in
+            </button>
+            <button onClick={setOutPoint} className="px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800">
+              Set out
+            </button>
+            <span className="text-gray-500">Pause the preview where the clip should start or end.</span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs text-gray-400">
+        <label className="space-y-1">
+          <span className="block font-medium text-gray-300">Crossfade</span>
+          <select
+            value={crossfade}
+            onChange={(e) => setCrossfade(Number(e.target.value))}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-gray-300 focus:outline-none"
+          >
+            {CROSSFADE_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds === 0 ? 'Hard cut' : `${seconds}s`}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium text-gray-300">Format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-gray-300 focus:outline-none"
+          >
+            <option value="webm" disabled={!canExportAs('webm')}>WebM</option>
+            <option value="mp4" disabled={!canExportAs('mp4')}>MP4</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium text-gray-300">Voice-over</span>
+          <select
+            value={voiceSource}
+            onChange={(e) => setVoiceSource(e.target.value as VoiceSource)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-gray-300 focus:outline-none"
+          >
+            <option value="none">None</option>
+            <option value="mic">Record from microphone</option>
+            <option value="live">Saved Live conversation</option>
+          </select>
+        </label>
+      </div>
+
+      {voiceSource !== 'none' && (
+        <div className="space-y-3 p-3 rounded-lg border border-gray-800 text-xs text-gray-400">
+          {voiceSource === 'mic' ? (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={toggleVoiceRecording}
+                className={`px-3 py-1.5 rounded-lg border ${isRecordingVoice ? 'border-red-500 text-red-300 animate-pulse' : 'border-gray-700 text-gray-300 hover:bg-gray-800'}`}
+              >
+                {isRecordingVoice ? 'Stop recording' : micTake ? 'Record again' : 'Record'}
+              </button>
+              {micTakeUrl && !isRecordingVoice && <audio src={micTakeUrl} controls className="h-8" />}
+            </div>
+          ) : recordings.length === 0 ? (
+            <p>No saved Live recordings yet. Turn on recording in a Live conversation first.</p>
+          ) : (
+            <select
+              value={recordingId}
+              onChange={(e) => setRecordingId(e.target.value)}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-gray-300 focus:outline-none"
+            >
+              {recordings.map(recording => (
+                <option key={recording.id} value={recording.id}>
+                  {new Date(recording.createdAt).toLocaleString()} • {formatSeconds(recording.durationSeconds)}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="grid grid-cols-3 gap-3">
+            <label className="space-y-1">
+              <span className="block">Starts at (s)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={voiceOffset}
+                onChange={(e) => setVoiceOffset(Math.max(0, Number(e.target.value) || 0))}
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-gray-200 focus:outline-none"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Narration {Math.round(voiceVolume * 100)}%</span>
+              <input type="range" min={0} max={1.5} step={0.05} value={voiceVolume} onChange={(e) => setVoiceVolume(Number(e.target.value))} className="w-full" />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Clip audio {Math.round(clipVolume * 100)}%</span>
+              <input type="range" min={0} max={1} step={0.05} value={clipVolume} onChange={(e) => setClipVolume(Number(e.target.value))} className="w-full" />
+            </label>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={exportEdit}
+          disabled={clips.length === 0 || isExporting || !voiceReady}
+          className="px-4 py-2 rounded-lg bg-purple-600/30 border border-purple-500/50 text-sm text-purple-200 hover:bg-purple-600/40 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isExporting ? `Exporting ${Math.round(exportProgress * 100)}%` : 'Export'}
+        </button>
+        {isExporting && (
+          <button
+            onClick={() => exportAbortRef.current?.abort()}
+            className="px-3 py-2 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800"
+          >
+            Cancel
+          </button>
+        )}
+        <p className="text-xs text-gray-500">Rendered in this tab in real time, so exporting takes as long as the edit.</p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">{error}</div>
+      )}
+    </div>
+  );
+};
+
+export default VideoEditor;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from 'react';
+import { FrameCaptureOptions, VideoInputSource } from '../utils/frameCapture';
+
+interface VideoInputPanelProps {
+  source: VideoInputSource;
+  options: FrameCaptureOptions;
+  isPaused: boolean;
+  onSourceChange: (source: VideoInputSource) => void;
+  onOptionsChange: (options: FrameCaptureOptions) => void;
+  onPausedChange: (paused: boolean) => void;
+}
+
+const SOURCES: { value: VideoInputSource; label: string }[] = [
+  { value: 'none', label: 'Audio only' },
+  { value: 'camera', label: 'Camera' },
+  { value: 'screen', label: 'Screen' },
+];
+
+const FRAME_RATES = [0.5, 1, 2];
+const RESOLUTIONS = [480, 768, 1024];
+
+export const VideoPreview: React.FC<{ stream: MediaStream; isPaused: boolean }> = ({ stream, isPaused }) => {
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <div className="relative w-40 aspect-video rounded-lg overflow-hidden border border-gray-700 bg-black shadow-lg">
+      <video ref={previewRef} autoPlay muted playsInline className={`w-full h-full object-contain ${isPaused ? 'opacity-30' : ''}`} />
+      {isPaused && (
+        <span className="absolute inset-0 flex items-center justify-center text-[11px] text-amber-300 font-mono">PAUSED</span>
+      )}
+    </div>
+  );
+};
+
+const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
+  source,
+  options,
+  isPaused,
+  onSourceChange,
+  onOptionsChange,
+  onPausedChange,
+}) => {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3">
+      <div className="flex items-center space-x-1 bg-white/5 p-1 rounded-full border border-white/10">
+        {SOURCES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onSourceChange(value)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${
+              source === value ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {source !== 'none' && (
+        <>
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            Rate
+            <select
+              value={options.framesPerSecond}
+              onChange={(e) => onOptionsChange({ ...options, framesPerSecond: Number(e.target.value) })}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200"
+            >
+              {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            Size
+            <select
+              value={options.maxDimension}
+              onChange={(e) => onOptionsChange({ ...options, maxDimension: Number(e.target.value) })}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200"
+            >
+              {RESOLUTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => onPausedChange(!isPaused)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+              isPaused ? 'border-amber-500/50 text-amber-300 bg-amber-500/10' : 'border-gray-700 text-gray-300 hover:bg-gray-800'
+            }`}
+          >
+            {isPaused ? 'Resume video' : 'Pause video'}
+          </button>
+          </>
+        )}
+    </div>
+  );
+};
+
+export default VideoInputPanel;
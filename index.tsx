@@ -1,12 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { generationQueue } from './utils/generationQueue';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Restore history and resume any Veo operations left running by a previous visit
+generationQueue.load();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
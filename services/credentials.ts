@@ -0,0 +1,182 @@
+import { GoogleGenAI } from '@google/genai';
+
+export type KeySource = 'stored' | 'environment' | 'aistudio' | 'none';
+
+export interface KeyStatus {
+  source: KeySource;
+  // Whether a request can be made right now
+  hasKey: boolean;
+  // Set after the API refused the key, until it changes
+  isRejected: boolean;
+  // First and last characters only, for display
+  maskedKey?: string;
+}
+
+type Listener = (status: KeyStatus) => void;
+
+const STORED_KEY = 'fusion.apiKey';
+const LIVE_TOKENS_KEY = 'fusion.liveEphemeralTokens';
+// Ephemeral tokens are only served by the v1alpha API
+const TOKEN_API_VERSION = 'v1alpha';
+// A token only has to outlive the connect handshake; resumed sessions don't spend it again
+const TOKEN_NEW_SESSION_WINDOW_MS = 60 * 1000;
+const TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+
+const listeners = new Set<Listener>();
+let isRejected = false;
+let aiStudioHasKey = false;
+
+// The dev server inlines GEMINI_API_KEY here and AI Studio injects the key it selected; builds leave it empty
+const environmentKey = () => process.env.API_KEY || undefined;
+
+const readStoredKey = () => {
+  try {
+    return localStorage.getItem(STORED_KEY) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const maskKey = (key: string) => key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '••••';
+
+/**
+ * The key for the next request. A key entered in the app wins over the
+ * environment's, so a user can override a stale or shared one.
+ */
+export const getApiKey = (): string | undefined => readStoredKey() ?? environmentKey();
+
+export function getKeyStatus(): KeyStatus {
+  const stored = readStoredKey();
+  const key = stored ?? environmentKey();
+  if (key) {
+    return { source: stored ? 'stored' : 'environment', hasKey: true, isRejected, maskedKey: maskKey(key) };
+  }
+  if (window.aistudio) {
+    return { source: 'aistudio', hasKey: aiStudioHasKey, isRejected };
+  }
+  return { source: 'none', hasKey: false, isRejected };
+}
+
+export function subscribeKeyStatus(listener: Listener): () => void {
+  listeners.add(listener);
+  listener(getKeyStatus());
+  // AI Studio only answers asynchronously
+  refreshAiStudioStatus();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const notify = () => {
+  const status = getKeyStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+async function refreshAiStudioStatus() {
+  if (!window.aistudio?.hasSelectedApiKey) return;
+  try {
+    const hasKey = await window.aistudio.hasSelectedApiKey();
+    if (hasKey !== aiStudioHasKey) {
+      aiStudioHasKey = hasKey;
+      notify();
+    }
+  } catch (err) {
+    console.error("Couldn't check the AI Studio key", err);
+  }
+}
+
+export function setStoredApiKey(key: string) {
+  localStorage.setItem(STORED_KEY, key.trim());
+  isRejected = false;
+  notify();
+}
+
+export function clearStoredApiKey() {
+  localStorage.removeItem(STORED_KEY);
+  isRejected = false;
+  notify();
+}
+
+// Called when the API refuses the key, so the header can flag it
+export function reportKeyRejected() {
+  if (isRejected) return;
+  isRejected = true;
+  notify();
+}
+
+/**
+ * Opens the AI Studio key picker. Resolves false outside AI Studio, or when
+ * the user backs out, so callers know a retry would fail the same way.
+ */
+export async function selectAiStudioKey(): Promise<boolean> {
+  if (!window.aistudio?.openSelectKey) return false;
+  try {
+    await window.aistudio.openSelectKey();
+    // Mitigation for race condition: assume a key was picked
+    aiStudioHasKey = true;
+    isRejected = false;
+    notify();
+    return true;
+  } catch (error) {
+    console.error("API Key selection failed/cancelled", error);
+    return false;
+  }
+}
+
+/**
+ * Makes sure some key is available before a paid request: a stored or
+ * environment key is used as is, otherwise AI Studio is asked for one.
+ */
+export async function ensureApiKey(): Promise<boolean> {
+  if (getApiKey()) return true;
+  if (!window.aistudio?.hasSelectedApiKey) return false;
+  await refreshAiStudioStatus();
+  return aiStudioHasKey || selectAiStudioKey();
+}
+
+export const createClient = () => new GoogleGenAI({ apiKey: getApiKey() });
+
+/**
+ * Fetches a file served by the Gemini API. The key travels in a header so it
+ * never ends up in URLs, history or server logs.
+ */
+export async function fetchWithApiKey(uri: string, signal?: AbortSignal): Promise<Response> {
+  const key = getApiKey();
+  const res = await fetch(uri, { signal, headers: key ? { 'x-goog-api-key': key } : undefined });
+  if (res.status === 401 || res.status === 403) reportKeyRejected();
+  return res;
+}
+
+export const isUsingLiveTokens = () => localStorage.getItem(LIVE_TOKENS_KEY) === 'true';
+
+export function setUsingLiveTokens(enabled: boolean) {
+  localStorage.setItem(LIVE_TOKENS_KEY, String(enabled));
+  notify();
+}
+
+/**
+ * Mints a single-use token for one Live connection. The Live socket carries
+ * its credential in the URL, so a short-lived token is far less exposed than
+ * the key itself.
+ */
+export async function createLiveToken(): Promise<string> {
+  const now = Date.now();
+  const token = await createClient().authTokens.create({
+    config: {
+      uses: 1,
+      newSessionExpireTime: new Date(now + TOKEN_NEW_SESSION_WINDOW_MS).toISOString(),
+      expireTime: new Date(now + TOKEN_LIFETIME_MS).toISOString(),
+      httpOptions: { apiVersion: TOKEN_API_VERSION },
+    },
+  });
+  if (!token.name) {
+    throw new Error('The API did not return an ephemeral token.');
+  }
+  return token.name;
+}
+
+// Client for Live: authenticated with a fresh ephemeral token when enabled, otherwise with the key
+export async function createLiveClient(): Promise<GoogleGenAI> {
+  if (!isUsingLiveTokens()) return createClient();
+  return new GoogleGenAI({ apiKey: await createLiveToken(), httpOptions: { apiVersion: TOKEN_API_VERSION } });
+}
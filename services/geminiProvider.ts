@@ -0,0 +1,32 @@
+import { GenerateVideosOperation } from '@google/genai';
+import { createClient, createLiveClient, fetchWithApiKey } from './credentials';
+import { AIProvider } from './provider';
+
+// Clients are built per call: the key can change in the app or the AI Studio key picker
+export const createGeminiProvider = (): AIProvider => ({
+  name: 'gemini',
+  video: {
+    generateVideos: (params) => createClient().models.generateVideos(params),
+
+    getVideosOperation: (operationName, signal) => {
+      const operation = new GenerateVideosOperation();
+      operation.name = operationName;
+      return createClient().operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+    },
+
+    downloadFile: async (uri, signal) => {
+      const res = await fetchWithApiKey(uri, signal);
+      if (!res.ok) {
+        // The status is kept so callers can classify the failure
+        throw Object.assign(new Error(`Failed to download video file (${res.status}).`), { status: res.status });
+      }
+      return res.blob();
+    },
+  },
+  text: {
+    generateText: async (params) => (await createClient().models.generateContent(params)).text ?? '',
+  },
+  live: {
+    connect: async (params) => (await createLiveClient()).live.connect(params),
+  },
+});
@@ -0,0 +1,15 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { AIProvider } from './provider';
+
+export type { AIProvider, LiveService, LiveSession, TextService, VideoService } from './provider';
+
+let provider: AIProvider | null = null;
+
+// Set AI_PROVIDER=mock in .env.local to develop both studios without a key or network
+export function getProvider(): AIProvider {
+  if (!provider) {
+    provider = process.env.AI_PROVIDER === 'mock' ? createMockProvider() : createGeminiProvider();
+  }
+  return provider;
+}
@@ -0,0 +1,391 @@
+import {
+  Content,
+  ContentListUnion,
+  GenerateVideosOperation,
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  MediaModality,
+  Modality,
+  UsageMetadata,
+} from '@google/genai';
+import { createBlob, decode, resample } from '../utils/audioUtils';
+import { AIProvider, LiveSession } from './provider';
+
+// How long a fake Veo operation stays "in progress"
+const MOCK_GENERATION_MS = 15000;
+const SAMPLE_VIDEO_URI = 'mock://sample-video';
+const SAMPLE_VIDEO_SECONDS = 4;
+
+const MOCK_OUTPUT_RATE = 24000;
+const SPEECH_RMS_THRESHOLD = 0.02;
+const END_OF_TURN_SILENCE_MS = 700;
+const REPLY_CHUNK_MS = 100;
+// Gemini counts 25 tokens per second of audio and roughly 4 characters per text token
+const AUDIO_TOKENS_PER_SECOND = 25;
+const CHARS_PER_TOKEN = 4;
+const SPOKEN_CHARS_PER_SECOND = 15;
+
+const sampleVideos = new Map<string, Promise<Blob>>();
+
+/**
+ * Renders the stand-in clip every mock generation resolves to. It is drawn
+ * and recorded in the browser so the repo doesn't carry a binary asset.
+ */
+const synthesizeSampleVideo = (width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  return new Promise((resolve) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+    };
+
+    const startedAt = performance.now();
+    const draw = () => {
+      const t = (performance.now() - startedAt) / 1000;
+      const gradient = ctx.createLinearGradient(0, 0, width, height);
+      gradient.addColorStop(0, `hsl(${(260 + t * 40) % 360}, 70%, 45%)`);
+      gradient.addColorStop(1, `hsl(${(190 + t * 40) % 360}, 70%, 35%)`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.beginPath();
+      ctx.arc(width / 2 + Math.cos(t * 2) * width / 4, height / 2 + Math.sin(t * 2) * height / 6, Math.min(width, height) / 10, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.font = `bold ${Math.round(Math.min(width, height) / 12)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.fillText('Mock Veo clip', width / 2, height - height / 8);
+
+      if (t < SAMPLE_VIDEO_SECONDS) {
+        requestAnimationFrame(draw);
+      } else {
+        recorder.stop();
+      }
+    };
+
+    recorder.start();
+    requestAnimationFrame(draw);
+  });
+};
+
+const getSampleVideo = (uri: string): Promise<Blob> => {
+  if (!sampleVideos.has(uri)) {
+    const portrait = uri.endsWith('9x16');
+    sampleVideos.set(uri, synthesizeSampleVideo(portrait ? 360 : 640, portrait ? 640 : 360));
+  }
+  return sampleVideos.get(uri)!;
+};
+
+const toServerMessage = (fields: Partial<LiveServerMessage>) =>
+  Object.assign(new LiveServerMessage(), fields);
+
+const pcm16ToFloat32 = (bytes: Uint8Array): Float32Array => {
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+  const out = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) out[i] = int16[i] / 32768;
+  return out;
+};
+
+const rms = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, samples.length));
+};
+
+const textFromTurns = (turns: ContentListUnion | undefined): string => {
+  if (!turns) return '';
+  const list = Array.isArray(turns) ? turns : [turns];
+  return list
+    .map(turn => typeof turn === 'string'
+      ? turn
+      : 'parts' in turn
+        ? ((turn as Content).parts ?? []).map(part => part.text ?? '').join('')
+        : (turn as { text?: string }).text ?? '')
+    .join(' ')
+    .trim();
+};
+
+// Roughly what the real server reports at the end of a turn
+const mockUsage = (input: { text?: string; audioSeconds?: number }, output: { text?: string; audioSeconds?: number }): UsageMetadata => {
+  const details = ({ text, audioSeconds }: { text?: string; audioSeconds?: number }) => [
+    ...(text ? [{ modality: MediaModality.TEXT, tokenCount: Math.ceil(text.length / CHARS_PER_TOKEN) }] : []),
+    ...(audioSeconds ? [{ modality: MediaModality.AUDIO, tokenCount: Math.ceil(audioSeconds * AUDIO_TOKENS_PER_SECOND) }] : []),
+  ];
+  const promptTokensDetails = details(input);
+  const responseTokensDetails = details(output);
+  const sum = (counts: { tokenCount: number }[]) => counts.reduce((total, count) => total + count.tokenCount, 0);
+  return {
+    promptTokenCount: sum(promptTokensDetails),
+    responseTokenCount: sum(responseTokensDetails),
+    totalTokenCount: sum(promptTokensDetails) + sum(responseTokensDetails),
+    promptTokensDetails,
+    responseTokensDetails,
+  };
+};
+
+/**
+ * Stands in for a Live session: echoes each spoken utterance back once the
+ * speaker pauses (or sends `activityEnd`), reports `interrupted` if they talk
+ * over the echo and ends every reply with `turnComplete`.
+ */
+class MockLiveSession implements LiveSession {
+  private utterance: Float32Array[] = [];
+  private isUserSpeaking = false;
+  private silenceMs = 0;
+  private replyTimers: ReturnType<typeof setTimeout>[] = [];
+  private replyEndsAt = 0;
+  private closed = false;
+
+  constructor(private callbacks: LiveCallbacks, private config: LiveConnectConfig = {}) {
+    setTimeout(() => {
+      if (this.closed) return;
+      this.callbacks.onopen?.();
+      if (this.config.sessionResumption) {
+        this.callbacks.onmessage(toServerMessage({
+          sessionResumptionUpdate: { newHandle: `mock-handle-${crypto.randomUUID()}`, resumable: true },
+        }));
+      }
+    }, 300);
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.closed) return;
+
+    // With automatic activity detection off, the client brackets each utterance itself
+    if (params.activityStart) {
+      if (Date.now() < this.replyEndsAt) this.interrupt();
+      this.isUserSpeaking = true;
+    }
+    if (params.activityEnd && this.isUserSpeaking) {
+      this.isUserSpeaking = false;
+      this.replyWithAudio();
+    }
+
+    const blob = params.audio ?? params.media;
+    if (!blob?.data || !blob.mimeType?.startsWith('audio/pcm')) return;
+
+    const rate = Number(/rate=(\d+)/.exec(blob.mimeType)?.[1] ?? 16000);
+    const samples = pcm16ToFloat32(decode(blob.data));
+    const chunkMs = (samples.length / rate) * 1000;
+
+    if (this.config.realtimeInputConfig?.automaticActivityDetection?.disabled) {
+      if (this.isUserSpeaking) this.utterance.push(resample(samples, rate, MOCK_OUTPUT_RATE));
+      return;
+    }
+
+    if (rms(samples) > SPEECH_RMS_THRESHOLD) {
+      if (!this.isUserSpeaking && Date.now() < this.replyEndsAt) {
+        this.interrupt();
+      }
+      this.isUserSpeaking = true;
+      this.silenceMs = 0;
+    } else if (this.isUserSpeaking) {
+      this.silenceMs += chunkMs;
+    }
+
+    if (!this.isUserSpeaking) return;
+    this.utterance.push(resample(samples, rate, MOCK_OUTPUT_RATE));
+
+    if (this.silenceMs >= END_OF_TURN_SILENCE_MS) {
+      this.isUserSpeaking = false;
+      this.replyWithAudio();
+    }
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    const text = textFromTurns(params.turns);
+    if (this.closed || !text) return;
+
+    // "/tool name {json}" makes the mock call one of the declared tools
+    const toolCommand = /^\/tool\s+(\S+)\s*(.*)$/.exec(text);
+    if (toolCommand) {
+      const [, name, rawArgs] = toolCommand;
+      let args: Record<string, unknown> = {};
+      try {
+        args = rawArgs ? JSON.parse(rawArgs) : {};
+      } catch {
+        args = { input: rawArgs };
+      }
+      this.schedule(200, { toolCall: { functionCalls: [{ id: crypto.randomUUID(), name, args }] } });
+      return;
+    }
+
+    // "/goaway" and "/drop" exercise reconnection: a graceful notice, or a socket that just dies
+    if (text === '/goaway') {
+      this.schedule(100, { goAway: { timeLeft: '3s' } });
+      setTimeout(() => this.serverClose(1001, 'Going away'), 3000);
+      return;
+    }
+    if (text === '/drop') {
+      setTimeout(() => {
+        if (this.closed) return;
+        this.callbacks.onerror?.(new ErrorEvent('error', { message: 'Mock socket dropped' }));
+        this.serverClose(1006, '');
+      }, 100);
+      return;
+    }
+
+    this.replyWithText(`(mock) You said: ${text}`);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    if (this.closed) return;
+    const responses = Array.isArray(params.functionResponses) ? params.functionResponses : [params.functionResponses];
+    const summary = responses.map(response => `${response.name}: ${JSON.stringify(response.response)}`).join('; ');
+    this.replyWithText(`(mock) Tool result — ${summary}`);
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.clearReply();
+    this.callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Client closed the session' }));
+  }
+
+  // Text sessions get the reply as model text; audio sessions only see it in the output transcription
+  private replyWithText(text: string) {
+    const isTextSession = this.config.responseModalities?.includes(Modality.TEXT);
+    if (isTextSession) {
+      this.schedule(200, { serverContent: { modelTurn: { role: 'model', parts: [{ text }] } } });
+    } else if (this.config.outputAudioTranscription) {
+      this.schedule(200, { serverContent: { outputTranscription: { text } } });
+    }
+    this.schedule(250, {
+      serverContent: { turnComplete: true },
+      // Audio sessions are billed as if the reply had been spoken
+      usageMetadata: mockUsage({ text }, isTextSession ? { text } : { audioSeconds: text.length / SPOKEN_CHARS_PER_SECOND }),
+    });
+  }
+
+  private serverClose(code: number, reason: string) {
+    if (this.closed) return;
+    this.closed = true;
+    this.clearReply();
+    this.callbacks.onclose?.(new CloseEvent('close', { code, reason }));
+  }
+
+  private replyWithAudio() {
+    const total = this.utterance.reduce((sum, chunk) => sum + chunk.length, 0);
+    const audio = new Float32Array(total);
+    let offset = 0;
+    for (const chunk of this.utterance) {
+      audio.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.utterance = [];
+
+    const seconds = (audio.length / MOCK_OUTPUT_RATE).toFixed(1);
+    if (this.config.inputAudioTranscription) {
+      this.schedule(0, { serverContent: { inputTranscription: { text: `(mock) ${seconds}s of speech`, finished: true } } });
+    }
+    if (this.config.outputAudioTranscription) {
+      this.schedule(REPLY_CHUNK_MS / 2, { serverContent: { outputTranscription: { text: `(mock) Echoing ${seconds}s of audio back.` } } });
+    }
+
+    const chunkSize = (MOCK_OUTPUT_RATE * REPLY_CHUNK_MS) / 1000;
+    let delay = 0;
+    for (let start = 0; start < audio.length; start += chunkSize) {
+      const { data, mimeType } = createBlob(audio.subarray(start, start + chunkSize), MOCK_OUTPUT_RATE);
+      // Stream faster than real time, as the real server does
+      delay += REPLY_CHUNK_MS / 2;
+      this.schedule(delay, {
+        serverContent: {
+          modelTurn: { role: 'model', parts: [{ inlineData: { data, mimeType } }] },
+        },
+      });
+    }
+    const audioSeconds = audio.length / MOCK_OUTPUT_RATE;
+    this.schedule(delay + REPLY_CHUNK_MS, {
+      serverContent: { turnComplete: true },
+      usageMetadata: mockUsage({ audioSeconds }, { audioSeconds }),
+    });
+    this.replyEndsAt = Date.now() + (audio.length / MOCK_OUTPUT_RATE) * 1000;
+  }
+
+  private interrupt() {
+    this.clearReply();
+    this.callbacks.onmessage(toServerMessage({ serverContent: { interrupted: true } }));
+  }
+
+  private schedule(delayMs: number, fields: Partial<LiveServerMessage>) {
+    this.replyTimers.push(setTimeout(() => {
+      if (!this.closed) this.callbacks.onmessage(toServerMessage(fields));
+    }, delayMs));
+  }
+
+  private clearReply() {
+    this.replyTimers.forEach(clearTimeout);
+    this.replyTimers = [];
+    this.replyEndsAt = 0;
+  }
+}
+
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+  video: {
+    generateVideos: async (params) => {
+      // "/fail 429" (or any status) in the prompt exercises the error handling
+      const failure = /\/fail (\d{3})/.exec(params.prompt ?? '');
+      if (failure) {
+        throw Object.assign(new Error(`Mock failure (status ${failure[1]}).`), { status: Number(failure[1]) });
+      }
+      // Encode the start time in the name so resumed operations still complete
+      const orientation = params.config?.aspectRatio === '9:16' ? '9x16' : '16x9';
+      const count = params.config?.numberOfVideos ?? 1;
+      return Object.assign(new GenerateVideosOperation(), {
+        name: `mock/operations/${Date.now()}-${orientation}_${count}-${crypto.randomUUID()}`,
+        done: false,
+      });
+    },
+
+    getVideosOperation: async (operationName) => {
+      const [startedAt, shape] = operationName.split('/').pop()!.split('-');
+      // Names from before the count was encoded have no '_n' suffix
+      const [orientation, count = '1'] = shape.split('_');
+      const done = Date.now() - Number(startedAt) >= MOCK_GENERATION_MS;
+      return Object.assign(new GenerateVideosOperation(), {
+        name: operationName,
+        done,
+        response: done
+          ? {
+              generatedVideos: Array.from({ length: Number(count) }, () => ({ video: { uri: `${SAMPLE_VIDEO_URI}/${orientation}` } })),
+            }
+          : undefined,
+      });
+    },
+
+    downloadFile: async (uri) => {
+      if (!uri.startsWith(SAMPLE_VIDEO_URI)) {
+        throw new Error(`The mock provider cannot download ${uri}.`);
+      }
+      return getSampleVideo(uri);
+    },
+  },
+  text: {
+    // Dresses up whatever text it was sent, which is enough to exercise suggestion and diff UIs
+    generateText: async ({ contents }) => {
+      await new Promise(resolve => setTimeout(resolve, 800));
+      const text = textFromTurns(contents).replace(/[.\s]+$/, '') || 'A quiet city street at dawn';
+      return `${text}, captured with a slow dolly-in and a shallow depth of field. Soft golden-hour light, ` +
+        'warm cinematic color grading. Audio: gentle ambient room tone and distant birdsong.';
+    },
+  },
+  live: {
+    connect: async ({ callbacks, config }) => new MockLiveSession(callbacks, config),
+  },
+});
@@ -0,0 +1,32 @@
+import {
+  GenerateContentParameters,
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  LiveConnectParameters,
+  Session,
+} from '@google/genai';
+
+// The parts of a Live session the app talks to, so mocks don't need a real WebSocket
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'>;
+
+export interface VideoService {
+  generateVideos(params: GenerateVideosParameters): Promise<GenerateVideosOperation>;
+  getVideosOperation(operationName: string, signal?: AbortSignal): Promise<GenerateVideosOperation>;
+  downloadFile(uri: string, signal?: AbortSignal): Promise<Blob>;
+}
+
+export interface TextService {
+  // Resolves to the concatenated text of the first candidate
+  generateText(params: GenerateContentParameters): Promise<string>;
+}
+
+export interface LiveService {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+export interface AIProvider {
+  name: 'gemini' | 'mock';
+  video: VideoService;
+  text: TextService;
+  live: LiveService;
+}
@@ -1,14 +1,288 @@
 export enum AppMode {
   VEO_STUDIO = 'VEO_STUDIO',
   LIVE_CONVERSATION = 'LIVE_CONVERSATION',
+  INTERPRETER = 'INTERPRETER',
+  USAGE = 'USAGE',
 }
 
 export type AspectRatio = '16:9' | '9:16';
 
-export interface VeoConfig {
+export type VideoResolution = '720p' | '1080p';
+
+// Who Veo may depict; which values are accepted depends on the generation mode
+export type PersonGeneration = 'allow_all' | 'allow_adult' | 'dont_allow';
+
+// Structured pieces of a Veo prompt; empty fields are left out when composing
+export interface PromptFields {
+  subject: string;
+  cameraMovement: string;
+  lighting: string;
+  style: string;
+  audioCues: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  fields: PromptFields;
+  updatedAt: number;
+}
+
+export enum VeoGenerationMode {
+  TEXT_TO_VIDEO = 'TEXT_TO_VIDEO',
+  IMAGE_TO_VIDEO = 'IMAGE_TO_VIDEO',
+  FIRST_LAST_FRAME = 'FIRST_LAST_FRAME',
+  REFERENCE_IMAGES = 'REFERENCE_IMAGES',
+  // Continues a previous Veo clip; only reachable from the Extend action
+  EXTEND_VIDEO = 'EXTEND_VIDEO',
+}
+
+export type VeoDraftMode = Exclude<VeoGenerationMode, VeoGenerationMode.EXTEND_VIDEO>;
+
+export type ReferenceImageType = 'ASSET' | 'STYLE';
+
+export interface ReferenceImage {
+  image: Blob;
+  referenceType: ReferenceImageType;
+}
+
+interface VeoConfigBase {
   prompt: string;
   aspectRatio: AspectRatio;
-  image: File | null;
+  // Videos Veo returns for the one request; 1 when unset
+  numberOfVideos?: number;
+  // Unset options fall back to the defaults, as in configs saved before they were selectable
+  model?: string;
+  resolution?: VideoResolution;
+  durationSeconds?: number;
+  negativePrompt?: string;
+  // Same seed and inputs give the same video; unset picks a random seed
+  seed?: number;
+  personGeneration?: PersonGeneration;
+  generateAudio?: boolean;
+}
+
+export interface TextToVideoConfig extends VeoConfigBase {
+  mode: VeoGenerationMode.TEXT_TO_VIDEO;
+}
+
+export interface ImageToVideoConfig extends VeoConfigBase {
+  mode: VeoGenerationMode.IMAGE_TO_VIDEO;
+  image: Blob;
+}
+
+export interface FirstLastFrameConfig extends VeoConfigBase {
+  mode: VeoGenerationMode.FIRST_LAST_FRAME;
+  firstFrame: Blob;
+  lastFrame: Blob;
+}
+
+export interface ReferenceImagesConfig extends VeoConfigBase {
+  mode: VeoGenerationMode.REFERENCE_IMAGES;
+  referenceImages: ReferenceImage[];
+}
+
+export interface ExtendVideoConfig extends VeoConfigBase {
+  mode: VeoGenerationMode.EXTEND_VIDEO;
+  // URI of a Veo-generated video still held by the API
+  videoUri: string;
+}
+
+export type VeoConfig =
+  | TextToVideoConfig
+  | ImageToVideoConfig
+  | FirstLastFrameConfig
+  | ReferenceImagesConfig
+  | ExtendVideoConfig;
+
+// Editable form state in VeoStudio; only the fields for the selected mode are used
+export interface VeoDraft extends VeoConfigBase {
+  mode: VeoDraftMode;
+  image: Blob | null;
+  firstFrame: Blob | null;
+  lastFrame: Blob | null;
+  referenceImages: ReferenceImage[];
+}
+
+export type GenerationStatus =
+  | 'queued'
+  | 'running'
+  | 'polling'
+  | 'downloading'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export interface GenerationState {
+  status: GenerationStatus;
+  statusMessage: string;
+  operationName?: string;
+  videoUri?: string;
+  videoBlob?: Blob;
+  // Every returned video when the request asked for more than one; videoBlob is the first
+  videoBlobs?: Blob[];
+  error?: string;
+}
+
+export interface GenerationRecord extends GenerationState {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  config: VeoConfig;
+}
+
+export interface BatchCell {
+  generationId: string;
+  promptIndex: number;
+  // Index into the batch's images; null for text-only batches
+  imageIndex: number | null;
+  aspectRatio: AspectRatio;
+}
+
+// A prompts × images × aspect ratios matrix queued together for comparison
+export interface VeoBatch {
+  id: string;
+  createdAt: number;
+  prompts: string[];
+  images: Blob[];
+  aspectRatios: AspectRatio[];
+  videosPerRequest: number;
+  cells: BatchCell[];
+  // Keys from batchVideoKey: a generation id plus the video's index within it
+  favorites: string[];
+}
+
+export type ExtendMethod = 'lastFrame' | 'videoExtension';
+
+export interface SequenceSegment {
+  generationId: string;
+  // Seconds to skip at the start; Veo extensions return the source clip plus the new footage
+  trimStart: number;
+}
+
+export interface Sequence {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  segments: SequenceSegment[];
+}
+
+// A trimmed piece of a generated video in the editor
+export interface EditorClip {
+  // Unique within the edit, since the same video can be used twice
+  id: string;
+  generationId: string;
+  // Which of the generation's videos, for requests that returned several
+  videoIndex: number;
+  // Seconds into the source video; a null end plays to the end
+  trimStart: number;
+  trimEnd: number | null;
+}
+
+export type TranscriptSpeaker = 'user' | 'model' | 'tool';
+
+export type ToolInvocationStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ToolInvocation {
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolInvocationStatus;
+  result?: Record<string, unknown>;
+}
+
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  // Epoch milliseconds of the first and latest fragment in the turn
+  startedAt: number;
+  endedAt: number;
+  isFinal: boolean;
+  // Typed into the composer rather than spoken
+  isTyped?: boolean;
+  // Set on 'tool' turns, which record a function call instead of speech
+  toolInvocation?: ToolInvocation;
+}
+
+// The two languages of an interpreter session, as BCP-47 codes
+export interface LanguagePair {
+  source: string;
+  target: string;
+}
+
+export interface ConversationRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  turns: TranscriptTurn[];
+  // Set on interpreter sessions, whose user turns are originals and model turns their translations
+  languages?: LanguagePair;
+}
+
+// Audio of a Live conversation, stored under the conversation's id
+export interface LiveRecording {
+  id: string;
+  createdAt: number;
+  durationSeconds: number;
+  // Stereo WAV: user on the left channel, model on the right
+  audio: Blob;
+}
+
+export interface LivePersona {
+  id: string;
+  name: string;
+  model: string;
+  voiceName: string;
+  // BCP-47 code such as 'es-ES'; empty lets the model choose
+  languageCode: string;
+  systemInstruction: string;
+  temperature: number;
+  enableAffectiveDialog: boolean;
+  proactiveAudio: boolean;
+  updatedAt: number;
+}
+
+export type LiveTokenKind = 'inputText' | 'inputAudio' | 'outputText' | 'outputAudio';
+
+// Token counts of one Live session
+export interface LiveUsageRecord {
+  // The conversation's id
+  id: string;
+  kind: 'live';
+  createdAt: number;
+  updatedAt: number;
+  model: string;
+  tokens: Record<LiveTokenKind, number>;
+}
+
+// One Veo request, kept after its generation is deleted so spend history stays complete
+export interface VeoUsageRecord {
+  // The generation's id
+  id: string;
+  kind: 'veo';
+  createdAt: number;
+  model: string;
+  resolution: string;
+  // Length of each returned video
+  durationSeconds: number;
+  videoCount: number;
+  status: 'succeeded' | 'failed' | 'cancelled';
+}
+
+export type UsageRecord = LiveUsageRecord | VeoUsageRecord;
+
+export interface PriceTable {
+  // USD per second of generated video, by model
+  veo: Record<string, number>;
+  // USD per million tokens, by model
+  live: Record<string, Record<LiveTokenKind, number>>;
+}
+
+// Soft limits in USD: crossing one asks for confirmation but never blocks
+export interface BudgetLimits {
+  daily: number | null;
+  monthly: number | null;
 }
 
 // Augment window for AI Studio specific methods
@@ -22,4 +296,9 @@ declare global {
     webkitAudioContext: typeof AudioContext;
     aistudio?: AIStudio;
   }
+
+  // Output routing; Chromium only so far
+  interface AudioContext {
+    setSinkId?: (sinkId: string) => Promise<void>;
+  }
 }
\ No newline at end of file
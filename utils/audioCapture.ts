@@ -0,0 +1,115 @@
+import { StreamResampler } from './audioUtils';
+
+export interface MicCaptureOptions {
+  // Rate of the PCM handed to `onChunk`, regardless of the device rate
+  targetSampleRate: number;
+  // Audio per chunk; smaller chunks lower latency at the cost of more messages
+  chunkMs: number;
+}
+
+export const DEFAULT_MIC_CAPTURE_OPTIONS: MicCaptureOptions = {
+  targetSampleRate: 16000,
+  chunkMs: 40,
+};
+
+export const MIC_CHUNK_SIZES_MS = [20, 40, 80, 160];
+
+export interface MicCapture {
+  sampleRate: number;
+  // Moves capture to another stream, e.g. a newly plugged-in headset, keeping the worklet and its partial chunk
+  setStream: (stream: MediaStream) => void;
+  stop: () => void;
+}
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Runs on the audio rendering thread: resamples the first input channel and
+// posts fixed-size Float32 chunks back to the main thread.
+const WORKLET_SOURCE = `
+const StreamResampler = ${StreamResampler.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.resampler = new StreamResampler(sampleRate, targetSampleRate);
+    this.chunk = new Float32Array(chunkSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    const samples = this.resampler.process(channel);
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(samples.length - offset, this.chunk.length - this.filled);
+      this.chunk.set(samples.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.chunk.length) {
+        this.port.postMessage(this.chunk, [this.chunk.buffer]);
+        this.chunk = new Float32Array(this.chunk.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorklet = async (ctx: AudioContext) => {
+  if (registeredContexts.has(ctx)) return;
+  workletUrl ??= URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+  await ctx.audioWorklet.addModule(workletUrl);
+  registeredContexts.add(ctx);
+};
+
+/**
+ * Streams microphone audio as mono Float32 chunks at `targetSampleRate`.
+ * The context can run at whatever rate the device prefers; resampling happens
+ * in an AudioWorklet, off the main thread.
+ */
+export async function startMicCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  options: MicCaptureOptions,
+  onChunk: (samples: Float32Array) => void,
+): Promise<MicCapture> {
+  await ensureWorklet(ctx);
+
+  let source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    // No outputs: the node is still processed without being wired to the speakers
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetSampleRate: options.targetSampleRate,
+      chunkSize: Math.round((options.targetSampleRate * options.chunkMs) / 1000),
+    },
+  });
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onChunk(e.data);
+  source.connect(node);
+
+  return {
+    sampleRate: options.targetSampleRate,
+    setStream: (next) => {
+      source.disconnect();
+      source = ctx.createMediaStreamSource(next);
+      source.connect(node);
+    },
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
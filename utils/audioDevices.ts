@@ -0,0 +1,176 @@
+import { levelDb } from './micGate';
+
+const DEVICES_KEY = 'fusion.audioDevices';
+
+// The browser's own speech processing, applied before audio reaches the capture worklet
+export interface AudioProcessingOptions {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export interface AudioDeviceSettings {
+  // '' follows the system default
+  inputDeviceId: string;
+  outputDeviceId: string;
+  processing: AudioProcessingOptions;
+}
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  // The input the system picks when none is chosen
+  defaultInput?: MediaDeviceInfo;
+}
+
+export const AUDIO_PROCESSING_LABELS: Record<keyof AudioProcessingOptions, string> = {
+  echoCancellation: 'Echo cancellation',
+  noiseSuppression: 'Noise suppression',
+  autoGainControl: 'Auto gain',
+};
+
+export const DEFAULT_AUDIO_DEVICE_SETTINGS: AudioDeviceSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  processing: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+};
+
+export function getAudioDeviceSettings(): AudioDeviceSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DEVICES_KEY) ?? '{}') ?? {};
+    return {
+      ...DEFAULT_AUDIO_DEVICE_SETTINGS,
+      ...stored,
+      processing: { ...DEFAULT_AUDIO_DEVICE_SETTINGS.processing, ...stored.processing },
+    };
+  } catch {
+    return DEFAULT_AUDIO_DEVICE_SETTINGS;
+  }
+}
+
+export const setAudioDeviceSettings = (settings: AudioDeviceSettings) =>
+  localStorage.setItem(DEVICES_KEY, JSON.stringify(settings));
+
+// Safari and Firefox play Web Audio through the default output only
+export const canSelectOutput = () =>
+  typeof window.AudioContext !== 'undefined' && typeof AudioContext.prototype.setSinkId === 'function';
+
+// Labels stay empty until the page has been allowed to use the microphone
+export const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `${device.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${index + 1}`;
+
+export async function listAudioDevices(): Promise<AudioDeviceLists> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // Chromium lists "default" and "communications" aliases alongside the real devices;
+  // the default alias shares its group with the device it stands for
+  const isReal = (device: MediaDeviceInfo) => device.deviceId !== 'default' && device.deviceId !== 'communications';
+  const inputs = devices.filter(device => device.kind === 'audioinput' && device.deviceId && isReal(device));
+  return {
+    inputs,
+    outputs: devices.filter(device => device.kind === 'audiooutput' && device.deviceId && isReal(device)),
+    defaultInput: devices.find(device => device.kind === 'audioinput' && device.deviceId === 'default') ?? inputs[0],
+  };
+}
+
+export const buildAudioConstraints = ({ inputDeviceId, processing }: AudioDeviceSettings): MediaTrackConstraints => ({
+  ...(inputDeviceId ? { deviceId: { exact: inputDeviceId } } : {}),
+  ...processing,
+});
+
+/**
+ * Opens the chosen microphone with the chosen processing. A device that has
+ * been unplugged falls back to the system default rather than failing.
+ */
+export async function openMicrophone(settings: AudioDeviceSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+  } catch (err: any) {
+    const isMissing = err?.name === 'OverconstrainedError' || err?.name === 'NotFoundError';
+    if (!settings.inputDeviceId || !isMissing) throw err;
+    return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints({ ...settings, inputDeviceId: '' }) });
+  }
+}
+
+/**
+ * Whether a stream is still on the device it should be on: the chosen one
+ * while it is plugged in, otherwise the system default. A stream opened on
+ * the default stays on the old device when the default changes, e.g. when a
+ * headset is plugged in, so it has to be reopened.
+ */
+export function isOnPreferredInput(stream: MediaStream, devices: AudioDeviceLists, preferredId: string): boolean {
+  const track = stream.getAudioTracks()[0];
+  if (!track || track.readyState === 'ended') return false;
+  const { deviceId, groupId } = track.getSettings();
+  const preferred = preferredId ? devices.inputs.find(device => device.deviceId === preferredId) : undefined;
+  if (preferred) return deviceId === preferred.deviceId;
+  const fallback = devices.defaultInput;
+  return !fallback || !groupId || fallback.groupId === groupId;
+}
+
+// The output to route to: the chosen one while it is plugged in, otherwise the default
+export const resolveOutputId = (outputs: MediaDeviceInfo[], preferredId: string) =>
+  outputs.some(device => device.deviceId === preferredId) ? preferredId : '';
+
+// Returns false where the browser can't route Web Audio or the device refused
+export async function applyOutputDevice(ctx: AudioContext, deviceId: string): Promise<boolean> {
+  if (!ctx.setSinkId) return false;
+  try {
+    await ctx.setSinkId(deviceId);
+    return true;
+  } catch (err) {
+    console.error("Failed to switch output device", err);
+    return false;
+  }
+}
+
+// Calls back on plug, unplug and default-device changes; returns an unsubscribe
+export function watchAudioDevices(onChange: () => void): () => void {
+  navigator.mediaDevices?.addEventListener('devicechange', onChange);
+  return () => navigator.mediaDevices?.removeEventListener('devicechange', onChange);
+}
+
+export interface MicTest {
+  getLevelDb: () => number;
+  // Label of the device actually opened, which may be the default after a fallback
+  deviceLabel: string;
+  stop: () => void;
+}
+
+// Opens the microphone with the given settings only to measure its level, before a session
+export async function startMicTest(settings: AudioDeviceSettings): Promise<MicTest> {
+  const stream = await openMicrophone(settings);
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  const ctx = new AudioContextClass();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  ctx.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevelDb: () => {
+      analyser.getFloatTimeDomainData(samples);
+      return levelDb(samples);
+    },
+    deviceLabel: stream.getAudioTracks()[0]?.label ?? '',
+    stop: () => {
+      stream.getTracks().forEach(track => track.stop());
+      ctx.close().catch(err => console.error(err));
+    },
+  };
+}
+
+// A short beep through the chosen output, so the speaker can be checked before a session
+export async function playTestTone(outputDeviceId: string): Promise<void> {
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  const ctx = new AudioContextClass();
+  if (outputDeviceId) await applyOutputDevice(ctx, outputDeviceId);
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.frequency.value = 440;
+  gain.gain.setValueAtTime(0.2, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.6);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start();
+  oscillator.stop(ctx.currentTime + 0.6);
+  oscillator.onended = () => { ctx.close().catch(err => console.error(err)); };
+}
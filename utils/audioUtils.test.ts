@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { StreamResampler } from './audioUtils';
+
+const sine = (frequency: number, sampleRate: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// Feeds `input` in chunks of the given sizes, cycling through them, and joins the output
+function resampleInChunks(resampler: StreamResampler, input: Float32Array, chunkSizes: number[]): Float32Array {
+  const outputs: Float32Array[] = [];
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = chunkSizes[i % chunkSizes.length];
+    outputs.push(resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  const joined = new Float32Array(outputs.reduce((total, output) => total + output.length, 0));
+  outputs.reduce((offset, output) => {
+    joined.set(output, offset);
+    return offset + output.length;
+  }, 0);
+  return joined;
+}
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+
+describe('StreamResampler', () => {
+  it.each([48000, 44100])('resamples %i Hz to 16 kHz the same however the input is chunked', (inputRate) => {
+    const input = sine(440, inputRate, 1);
+    const whole = new StreamResampler(inputRate, 16000).process(input);
+
+    // 128 is the worklet's render quantum; the odd sizes put chunk edges between output samples
+    for (const chunkSizes of [[128], [1], [441, 37, 1000]]) {
+      const chunked = resampleInChunks(new StreamResampler(inputRate, 16000), input, chunkSizes);
+      expect(chunked.length).toBe(whole.length);
+      chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+    }
+  });
+
+  it.each([48000, 44100])('keeps the duration and level of speech-band audio at %i Hz', (inputRate) => {
+    const output = resampleInChunks(new StreamResampler(inputRate, 16000), sine(440, inputRate, 1), [128]);
+
+    expect(Math.abs(output.length - 16000)).toBeLessThanOrEqual(2);
+    // Past the filter's settling time, a 440 Hz tone keeps its level
+    expect(rms(output.subarray(1600))).toBeCloseTo(Math.SQRT1_2, 1);
+  });
+
+  it('damps tones above the new Nyquist frequency before they fold down', () => {
+    const output = resampleInChunks(new StreamResampler(48000, 16000), sine(12000, 48000, 1), [128]);
+    // A single biquad: at 12 kHz it takes the tone down by about 12 dB
+    expect(rms(output.subarray(1600))).toBeLessThan(Math.SQRT1_2 / 2);
+  });
+});
@@ -38,7 +38,7 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): GenAIBlob {
+export function createBlob(data: Float32Array, sampleRate = 16000): GenAIBlob {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -48,10 +48,126 @@ export function createBlob(data: Float32Array): GenAIBlob {
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
+/**
+ * Encodes PCM channels (all the same length, samples in [-1, 1]) as a 16-bit
+ * little-endian WAV file.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const dataSize = frameCount * numChannels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const s = Math.max(-1, Math.min(1, channels[channel][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Streaming resampler: a biquad low-pass (when downsampling) followed by linear
+ * interpolation. Filter and interpolation state carry over between calls, so
+ * consecutive chunks join without clicks.
+ *
+ * The class must not reference anything outside its own body; the mic capture
+ * worklet embeds it via `toString()`.
+ */
+export class StreamResampler {
+  private readonly step: number;
+  // Read position into `pending`, which holds the input not yet fully consumed
+  private position = 0;
+  private pending = new Float32Array(0);
+  private readonly filter: { b0: number; b1: number; b2: number; a1: number; a2: number } | null = null;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(readonly inputRate: number, readonly outputRate: number) {
+    this.step = inputRate / outputRate;
+    if (this.step > 1) {
+      // RBJ low-pass just under the output Nyquist frequency
+      const w0 = (2 * Math.PI * 0.45 * outputRate) / inputRate;
+      const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+      const cos = Math.cos(w0);
+      const a0 = 1 + alpha;
+      this.filter = {
+        b0: (1 - cos) / 2 / a0,
+        b1: (1 - cos) / a0,
+        b2: (1 - cos) / 2 / a0,
+        a1: (-2 * cos) / a0,
+        a2: (1 - alpha) / a0,
+      };
+    }
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.step === 1) return input.slice();
+
+    const buffer = new Float32Array(this.pending.length + input.length);
+    buffer.set(this.pending);
+    buffer.set(input, this.pending.length);
+
+    const f = this.filter;
+    if (f) {
+      for (let i = this.pending.length; i < buffer.length; i++) {
+        const x = buffer[i];
+        const y = f.b0 * x + f.b1 * this.x1 + f.b2 * this.x2 - f.a1 * this.y1 - f.a2 * this.y2;
+        this.x2 = this.x1;
+        this.x1 = x;
+        this.y2 = this.y1;
+        this.y1 = y;
+        buffer[i] = y;
+      }
+    }
+
+    const count = Math.max(0, Math.ceil((buffer.length - 1 - this.position) / this.step));
+    const output = new Float32Array(count);
+    let position = this.position;
+    for (let i = 0; i < count; i++) {
+      const index = Math.floor(position);
+      output[i] = buffer[index] + (buffer[index + 1] - buffer[index]) * (position - index);
+      position += this.step;
+    }
+
+    // Keep the last sample around so the next chunk can interpolate from it
+    const consumed = Math.max(0, Math.min(Math.floor(position), buffer.length - 1));
+    this.pending = buffer.slice(consumed);
+    this.position = position - consumed;
+    return output;
+  }
+}
+
+export function resample(input: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  return new StreamResampler(inputRate, outputRate).process(input);
+}
+
 export const blobToBase64 = (blob: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -0,0 +1,119 @@
+import { AspectRatio, BatchCell, VeoBatch, VeoConfig, VeoGenerationMode } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { generationQueue } from './generationQueue';
+import { validateUploadImage } from './imagePreprocess';
+import { estimateVeoCost } from './usageStore';
+import { getMaxVideos } from './veoRequest';
+
+// Keeps a single click from queueing hours of generations
+export const MAX_BATCH_REQUESTS = 24;
+
+export interface BatchDraft {
+  prompts: string[];
+  images: Blob[];
+  aspectRatios: AspectRatio[];
+  videosPerRequest: number;
+}
+
+// Image batches may run without a prompt; text-only ones need at least one
+const batchPrompts = (draft: BatchDraft) => {
+  const prompts = draft.prompts.map(prompt => prompt.trim()).filter(Boolean);
+  return prompts.length === 0 && draft.images.length > 0 ? [''] : prompts;
+};
+
+export const countBatchRequests = (draft: BatchDraft) =>
+  batchPrompts(draft).length * Math.max(1, draft.images.length) * draft.aspectRatios.length;
+
+export const batchVideoKey = (generationId: string, index: number) => `${generationId}:${index}`;
+
+// Batches run on the default model for their mode, which caps how many videos a request may ask for
+export const getBatchMaxVideos = (draft: BatchDraft) =>
+  getMaxVideos({ mode: draft.images.length > 0 ? VeoGenerationMode.IMAGE_TO_VIDEO : VeoGenerationMode.TEXT_TO_VIDEO });
+
+export function validateBatchDraft(draft: BatchDraft): string | null {
+  if (batchPrompts(draft).length === 0) return 'Add at least one prompt or image.';
+  if (draft.aspectRatios.length === 0) return 'Pick at least one aspect ratio.';
+  const requests = countBatchRequests(draft);
+  if (requests > MAX_BATCH_REQUESTS) {
+    return `That is ${requests} requests; a batch can hold at most ${MAX_BATCH_REQUESTS}.`;
+  }
+  const maxVideos = getBatchMaxVideos(draft);
+  if (draft.videosPerRequest < 1 || draft.videosPerRequest > maxVideos) {
+    return maxVideos === 1 ? 'Veo returns one video per request.' : `Ask for 1 to ${maxVideos} videos per request.`;
+  }
+  for (const image of draft.images) {
+    const problem = validateUploadImage(image);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+type BatchEntry = Omit<BatchCell, 'generationId'> & { config: VeoConfig };
+
+// One generation per prompt, image and aspect ratio, in grid order
+function expandBatch(draft: BatchDraft): BatchEntry[] {
+  const prompts = batchPrompts(draft);
+  const imageIndexes = draft.images.length > 0 ? draft.images.map((_, index) => index) : [null];
+  const entries: BatchEntry[] = [];
+  for (const [promptIndex, prompt] of prompts.entries()) {
+    for (const imageIndex of imageIndexes) {
+      for (const aspectRatio of draft.aspectRatios) {
+        const base = { prompt, aspectRatio, numberOfVideos: draft.videosPerRequest };
+        const config: VeoConfig = imageIndex === null
+          ? { ...base, mode: VeoGenerationMode.TEXT_TO_VIDEO }
+          : { ...base, mode: VeoGenerationMode.IMAGE_TO_VIDEO, image: draft.images[imageIndex] };
+        entries.push({ config, promptIndex, imageIndex, aspectRatio });
+      }
+    }
+  }
+  return entries;
+}
+
+export const estimateBatchCost = (draft: BatchDraft) => estimateVeoCost(expandBatch(draft).map(entry => entry.config));
+
+/**
+ * Queues every generation in the draft's matrix and stores the batch that
+ * ties them together.
+ */
+export async function queueBatch(draft: BatchDraft): Promise<VeoBatch> {
+  const problem = validateBatchDraft(draft);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const cells: BatchCell[] = [];
+  for (const { config, ...cell } of expandBatch(draft)) {
+    const record = await generationQueue.enqueue(config);
+    cells.push({ ...cell, generationId: record.id });
+  }
+
+  const batch: VeoBatch = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    prompts: batchPrompts(draft),
+    images: draft.images,
+    aspectRatios: draft.aspectRatios,
+    videosPerRequest: draft.videosPerRequest,
+    cells,
+    favorites: [],
+  };
+  await putRecord('batches', batch);
+  return batch;
+}
+
+export const listBatches = async (): Promise<VeoBatch[]> => {
+  const batches = await getAllRecords<VeoBatch>('batches');
+  return batches.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// The generations stay in the library; only the grouping goes away
+export const deleteBatch = (id: string) => deleteRecord('batches', id);
+
+export async function toggleBatchFavorite(batch: VeoBatch, key: string): Promise<VeoBatch> {
+  const favorites = batch.favorites.includes(key)
+    ? batch.favorites.filter(favorite => favorite !== key)
+    : [...batch.favorites, key];
+  const next = { ...batch, favorites };
+  await putRecord('batches', next);
+  return next;
+}
@@ -0,0 +1,116 @@
+import { Type } from '@google/genai';
+import { AspectRatio, VeoGenerationMode } from '../types';
+import { generationQueue } from './generationQueue';
+import { LiveTool, ToolRegistry } from './toolRegistry';
+import { checkBudget, estimateVeoCost } from './usageStore';
+import { getVeoDraft } from './veoDraftStore';
+import { draftToConfig, validateVeoDraft } from './veoRequest';
+
+const NOTES_STORAGE_KEY = 'fusion.liveNotes';
+
+interface LiveNote {
+  text: string;
+  createdAt: number;
+}
+
+const loadNotes = (): LiveNote[] => {
+  try {
+    return JSON.parse(localStorage.getItem(NOTES_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const getCurrentTime: LiveTool = {
+  declaration: {
+    name: 'get_current_time',
+    description: "Returns the user's current local date, time and time zone.",
+  },
+  handler: () => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+const takeNote: LiveTool = {
+  declaration: {
+    name: 'take_note',
+    description: 'Saves a short note for the user to read later.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'The note to save.' },
+      },
+      required: ['text'],
+    },
+  },
+  handler: (args) => {
+    const text = String(args.text ?? '').trim();
+    if (!text) {
+      throw new Error('The note is empty.');
+    }
+    const notes = [...loadNotes(), { text, createdAt: Date.now() }];
+    localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+    return { saved: true, noteCount: notes.length };
+  },
+};
+
+const generateVideo: LiveTool = {
+  declaration: {
+    name: 'generate_video',
+    description: 'Starts a Veo video generation using the prompt and images currently set up in Veo Studio. ' +
+      'Optionally overrides the prompt or aspect ratio. Returns once the job is queued, ' +
+      'or with the reason when it would go over the user\'s budget.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: 'Replaces the Veo Studio prompt.' },
+        aspectRatio: { type: Type.STRING, enum: ['16:9', '9:16'], description: 'Landscape or portrait.' },
+      },
+    },
+  },
+  handler: async (args, { signal }) => {
+    const current = getVeoDraft();
+    const draft = {
+      ...current,
+      prompt: typeof args.prompt === 'string' && args.prompt.trim() ? args.prompt : current.prompt,
+      aspectRatio: (args.aspectRatio === '9:16' || args.aspectRatio === '16:9' ? args.aspectRatio : current.aspectRatio) as AspectRatio,
+    };
+    // Without a source image there is still enough to generate from text alone
+    if (draft.mode === VeoGenerationMode.IMAGE_TO_VIDEO && !draft.image) {
+      draft.mode = VeoGenerationMode.TEXT_TO_VIDEO;
+    }
+
+    const invalidReason = validateVeoDraft(draft);
+    if (invalidReason) {
+      throw new Error(invalidReason);
+    }
+    const config = draftToConfig(draft);
+    // There is no one to confirm with mid-call, so an over-budget request is left for the user to start in Veo Studio
+    let budgetWarning: string | null = null;
+    try {
+      budgetWarning = await checkBudget(estimateVeoCost([config]));
+    } catch (err) {
+      console.error("Couldn't check the budget", err);
+    }
+    if (budgetWarning) {
+      return { queued: false, reason: budgetWarning };
+    }
+    if (signal.aborted) {
+      return { queued: false };
+    }
+
+    const record = await generationQueue.enqueue(config);
+    return { queued: true, generationId: record.id, prompt: draft.prompt, aspectRatio: draft.aspectRatio };
+  },
+};
+
+export const createDefaultToolRegistry = () =>
+  new ToolRegistry()
+    .register(getCurrentTime)
+    .register(takeNote)
+    .register(generateVideo);
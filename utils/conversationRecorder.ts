@@ -0,0 +1,104 @@
+import { encodeWav, resample } from './audioUtils';
+
+export type RecordingLayout = 'stereo' | 'mono';
+
+interface ModelSegment {
+  // Seconds from the start of the recording
+  startTime: number;
+  samples: Float32Array;
+}
+
+const concat = (chunks: Float32Array[]) => {
+  const out = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+// Sums the tracks into one channel; the speakers rarely overlap, so clipping is left to the encoder
+export const mixToMono = (channels: Float32Array[]) => {
+  const out = new Float32Array(Math.max(0, ...channels.map(channel => channel.length)));
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) out[i] += channel[i];
+  }
+  return out;
+};
+
+/**
+ * Records both sides of a Live call on one timeline, measured against the
+ * playback AudioContext clock. Model audio is placed where it was scheduled
+ * to play, so gaps and interruptions sound the way the user heard them.
+ */
+export class ConversationRecorder {
+  private userChunks: Float32Array[] = [];
+  private userSampleRate = 16000;
+  // Where the continuous mic track begins on the timeline, in seconds
+  private userStart: number | null = null;
+  private modelSegments: ModelSegment[] = [];
+
+  constructor(private startTime: number, readonly sampleRate = 24000) {}
+
+  get hasAudio() {
+    return this.userChunks.length > 0 || this.modelSegments.length > 0;
+  }
+
+  get durationSeconds() {
+    const userSamples = this.userChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const userEnd = (this.userStart ?? 0) + userSamples / this.userSampleRate;
+    return this.modelSegments.reduce(
+      (end, segment) => Math.max(end, segment.startTime + segment.samples.length / this.sampleRate),
+      userEnd,
+    );
+  }
+
+  // `now` is the playback clock when the chunk arrived, i.e. just after it was spoken
+  addUserAudio(samples: Float32Array, sampleRate: number, now: number) {
+    if (this.userStart === null) {
+      this.userStart = Math.max(0, now - this.startTime - samples.length / sampleRate);
+    }
+    this.userSampleRate = sampleRate;
+    this.userChunks.push(samples);
+  }
+
+  addModelAudio(samples: Float32Array, startTime: number) {
+    this.modelSegments.push({ startTime: startTime - this.startTime, samples });
+  }
+
+  // Drops model audio that was scheduled but never played because the user cut in
+  interruptModel(now: number) {
+    const cutoff = now - this.startTime;
+    this.modelSegments = this.modelSegments.flatMap(segment => {
+      if (segment.startTime >= cutoff) return [];
+      const keep = Math.floor((cutoff - segment.startTime) * this.sampleRate);
+      return keep < segment.samples.length ? [{ ...segment, samples: segment.samples.subarray(0, keep) }] : [segment];
+    });
+  }
+
+  // Both tracks at `sampleRate`, padded to the same length
+  render(): { user: Float32Array; model: Float32Array } {
+    const userAudio = resample(concat(this.userChunks), this.userSampleRate, this.sampleRate);
+    const userOffset = Math.round((this.userStart ?? 0) * this.sampleRate);
+    const modelEnd = this.modelSegments.reduce(
+      (end, segment) => Math.max(end, Math.round(segment.startTime * this.sampleRate) + segment.samples.length),
+      0,
+    );
+
+    const length = Math.max(userOffset + userAudio.length, modelEnd);
+    const user = new Float32Array(length);
+    const model = new Float32Array(length);
+    user.set(userAudio, userOffset);
+    for (const segment of this.modelSegments) {
+      model.set(segment.samples, Math.max(0, Math.round(segment.startTime * this.sampleRate)));
+    }
+    return { user, model };
+  }
+
+  // Stereo puts the user on the left channel and the model on the right
+  toWav(layout: RecordingLayout = 'stereo'): Blob {
+    const { user, model } = this.render();
+    return encodeWav(layout === 'stereo' ? [user, model] : [mixToMono([user, model])], this.sampleRate);
+  }
+}
@@ -0,0 +1,11 @@
+import { ConversationRecord } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+export const listConversations = async (): Promise<ConversationRecord[]> => {
+  const conversations = await getAllRecords<ConversationRecord>('conversations');
+  return conversations.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const saveConversation = (conversation: ConversationRecord) => putRecord('conversations', conversation);
+
+export const deleteConversation = (id: string) => deleteRecord('conversations', id);
@@ -0,0 +1,64 @@
+const DB_NAME = 'fusion-studio';
+const DB_VERSION = 8;
+
+// Every object store is keyed by an `id` property on the stored value.
+export const STORES = ['generations', 'sequences', 'conversations', 'personas', 'recordings', 'promptTemplates', 'batches', 'usage'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Create any store added since the last schema version
+        for (const name of STORES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+export async function getRecord<T>(store: StoreName, id: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(id));
+}
+
+export async function putRecord<T>(store: StoreName, value: T): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function deleteRecord(store: StoreName, id: string): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+}
+
+export async function clearRecords(store: StoreName): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).clear());
+}
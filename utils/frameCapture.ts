@@ -0,0 +1,94 @@
+import { blobToBase64 } from './audioUtils';
+
+export type VideoInputSource = 'none' | 'camera' | 'screen';
+
+export interface FrameCaptureOptions {
+  framesPerSecond: number;
+  // Frames are scaled down so their longest side is at most this many pixels
+  maxDimension: number;
+  jpegQuality: number;
+}
+
+export const DEFAULT_FRAME_CAPTURE_OPTIONS: FrameCaptureOptions = {
+  framesPerSecond: 1,
+  maxDimension: 768,
+  jpegQuality: 0.7,
+};
+
+export async function openVideoSource(source: Exclude<VideoInputSource, 'none'>): Promise<MediaStream> {
+  if (source === 'screen') {
+    return navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  }
+  return navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } }, audio: false });
+}
+
+/**
+ * Samples frames from a video stream at a fixed rate and hands them over as
+ * base64 JPEG, ready for `sendRealtimeInput({ video })`.
+ */
+export class FrameCapturer {
+  private video = document.createElement('video');
+  private canvas = document.createElement('canvas');
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isEncoding = false;
+  private paused = false;
+
+  constructor(
+    stream: MediaStream,
+    private options: FrameCaptureOptions,
+    private onFrame: (base64Jpeg: string) => void,
+  ) {
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = stream;
+  }
+
+  async start() {
+    await this.video.play();
+    this.schedule();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.video.pause();
+    this.video.srcObject = null;
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  updateOptions(options: FrameCaptureOptions) {
+    this.options = options;
+    if (this.timer) this.schedule();
+  }
+
+  private schedule() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(() => this.captureFrame(), 1000 / this.options.framesPerSecond);
+  }
+
+  private async captureFrame() {
+    const { videoWidth, videoHeight } = this.video;
+    // Skip while paused, before the first frame, or if the last frame is still encoding
+    if (this.paused || this.isEncoding || !videoWidth || !videoHeight) return;
+
+    this.isEncoding = true;
+    try {
+      const scale = Math.min(1, this.options.maxDimension / Math.max(videoWidth, videoHeight));
+      this.canvas.width = Math.round(videoWidth * scale);
+      this.canvas.height = Math.round(videoHeight * scale);
+      this.canvas.getContext('2d')!.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+
+      const blob = await new Promise<Blob | null>(resolve =>
+        this.canvas.toBlob(resolve, 'image/jpeg', this.options.jpegQuality),
+      );
+      if (blob && !this.paused) {
+        this.onFrame(await blobToBase64(blob));
+      }
+    } finally {
+      this.isEncoding = false;
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { GenerationRecord, GenerationState, GenerationStatus, VeoConfig } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { classifyApiError } from './resilience';
+import { recordVeoUsage } from './usageStore';
+import { GenerationProgress, resumeVeoGeneration, runVeoGeneration } from './veoGeneration';
+
+const DEFAULT_CONCURRENT_JOBS = 2;
+export const MAX_CONCURRENT_JOBS = 4;
+const CONCURRENCY_KEY = 'fusion.veoConcurrency';
+
+const TERMINAL_STATUSES: GenerationStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+type Listener = (records: GenerationRecord[]) => void;
+
+export const isGenerationActive = (record: GenerationRecord) =>
+  !TERMINAL_STATUSES.includes(record.status);
+
+const readConcurrency = () => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return stored >= 1 && stored <= MAX_CONCURRENT_JOBS ? stored : DEFAULT_CONCURRENT_JOBS;
+};
+
+/**
+ * Queues Veo generations, runs a configurable number of them at once and
+ * mirrors every record into IndexedDB. Lives at module scope so jobs keep
+ * running while VeoStudio is unmounted.
+ */
+class GenerationQueue {
+  private records = new Map<string, GenerationRecord>();
+  private pending: string[] = [];
+  // Running jobs and the controllers that cancel them
+  private running = new Map<string, AbortController>();
+  private listeners = new Set<Listener>();
+  private loadPromise: Promise<void> | null = null;
+  private concurrency = readConcurrency();
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.restore().catch(err => {
+        console.error("Failed to load generation history", err);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  // Lowering the limit lets running jobs finish; it only holds back new ones
+  setConcurrency(value: number) {
+    this.concurrency = Math.min(MAX_CONCURRENT_JOBS, Math.max(1, Math.round(value)));
+    localStorage.setItem(CONCURRENCY_KEY, String(this.concurrency));
+    this.pump();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.getRecords());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getRecords(): GenerationRecord[] {
+    return [...this.records.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async enqueue(config: VeoConfig): Promise<GenerationRecord> {
+    await this.load();
+    const now = Date.now();
+    const record: GenerationRecord = {
+      config,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      status: 'queued',
+      statusMessage: 'Waiting in queue...',
+    };
+    this.records.set(record.id, record);
+    await putRecord('generations', record);
+    this.notify();
+
+    this.pending.push(record.id);
+    this.pump();
+    return record;
+  }
+
+  rerun(id: string): Promise<GenerationRecord> {
+    const record = this.records.get(id);
+    if (!record) {
+      return Promise.reject(new Error('Generation not found.'));
+    }
+    return this.enqueue(record.config);
+  }
+
+  /**
+   * Stops a queued or running generation. Veo can't be told to stop, so a
+   * submitted job may still finish (and be billed) on its side.
+   */
+  async cancel(id: string): Promise<void> {
+    const controller = this.running.get(id);
+    if (controller) {
+      // run() records the cancellation when the aborted work unwinds
+      controller.abort();
+      return;
+    }
+    if (this.pending.includes(id)) {
+      this.pending = this.pending.filter(pendingId => pendingId !== id);
+      await this.update(id, { status: 'cancelled', statusMessage: '' });
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.running.get(id)?.abort();
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    this.records.delete(id);
+    this.notify();
+    await deleteRecord('generations', id);
+  }
+
+  private async restore() {
+    const stored = await getAllRecords<GenerationRecord>('generations');
+    const resumable: string[] = [];
+    for (const record of stored.sort((a, b) => a.createdAt - b.createdAt)) {
+      if (isGenerationActive(record)) {
+        if (record.operationName || record.status === 'queued') {
+          // Veo already accepted it (or it never left the queue): pick it back up
+          record.statusMessage = record.operationName ? 'Resuming after reload...' : 'Waiting in queue...';
+          resumable.push(record.id);
+        } else {
+          // The page went away between submitting and receiving an operation name
+          record.status = 'failed';
+          record.error = 'Interrupted before Veo accepted the request.';
+          record.statusMessage = '';
+          await putRecord('generations', record);
+        }
+      }
+      this.records.set(record.id, record);
+    }
+    this.notify();
+
+    this.pending.push(...resumable);
+    this.pump();
+  }
+
+  private pump() {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      if (!this.records.has(id)) continue;
+      const controller = new AbortController();
+      this.running.set(id, controller);
+      this.run(id, controller.signal).finally(() => {
+        this.running.delete(id);
+        this.pump();
+      });
+    }
+  }
+
+  private async run(id: string, signal: AbortSignal) {
+    const record = this.records.get(id);
+    if (!record) return;
+
+    try {
+      // Late progress from aborted work must not overwrite the cancellation
+      const onProgress = (progress: GenerationProgress) => signal.aborted ? undefined : this.update(id, progress);
+      const videoBlobs = record.operationName
+        ? await resumeVeoGeneration(record.operationName, onProgress, { signal })
+        : await runVeoGeneration(record.config, onProgress, { signal });
+      await this.update(id, {
+        status: 'succeeded',
+        statusMessage: 'Complete!',
+        videoBlob: videoBlobs[0],
+        videoBlobs: videoBlobs.length > 1 ? videoBlobs : undefined,
+      });
+      await recordVeoUsage(record, 'succeeded', videoBlobs.length);
+    } catch (err) {
+      const error = classifyApiError(err);
+      if (error.kind === 'cancelled' || signal.aborted) {
+        await this.update(id, { status: 'cancelled', statusMessage: '' });
+        // Once Veo has an operation it may finish and bill the job anyway, so count it as if it did
+        const wasSubmitted = !!(this.records.get(id)?.operationName ?? record.operationName);
+        await recordVeoUsage(record, 'cancelled', wasSubmitted ? record.config.numberOfVideos ?? 1 : 0);
+        return;
+      }
+      console.error(err);
+      await this.update(id, { status: 'failed', statusMessage: '', error: error.userMessage });
+      await recordVeoUsage(record, 'failed', 0);
+    }
+  }
+
+  private async update(id: string, patch: Partial<GenerationState>) {
+    const current = this.records.get(id);
+    // Deleted while running: drop the update rather than resurrecting it
+    if (!current) return;
+    const next = { ...current, ...patch, updatedAt: Date.now() };
+    this.records.set(id, next);
+    this.notify();
+    try {
+      await putRecord('generations', next);
+    } catch (err) {
+      console.error("Failed to persist generation", err);
+    }
+  }
+
+  private notify() {
+    const records = this.getRecords();
+    this.listeners.forEach(listener => listener(records));
+  }
+}
+
+export const generationQueue = new GenerationQueue();
@@ -0,0 +1,129 @@
+import { AspectRatio } from '../types';
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Formats the browser is expected to decode; HEIC only decodes in Safari, which is checked when loading
+const ACCEPTED_INPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/heic', 'image/heif'];
+// What Veo accepts as an input image
+const UPLOAD_TYPES = ['image/jpeg', 'image/png'];
+
+export const MAX_INPUT_BYTES = 25 * 1024 * 1024;
+// Inline request data is capped, so keep each encoded frame well under it
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+
+const OUTPUT_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.92;
+
+// Long edge of the uploaded frame; matches Veo's 720p output
+const TARGET_LONG_EDGE = 1280;
+
+export const IMAGE_INPUT_ACCEPT = ACCEPTED_INPUT_TYPES.join(',');
+
+export const aspectRatioValue = (aspectRatio: AspectRatio) => (aspectRatio === '16:9' ? 16 / 9 : 9 / 16);
+
+export function getTargetSize(aspectRatio: AspectRatio) {
+  const shortEdge = Math.round((TARGET_LONG_EDGE * 9) / 16);
+  return aspectRatio === '16:9'
+    ? { width: TARGET_LONG_EDGE, height: shortEdge }
+    : { width: shortEdge, height: TARGET_LONG_EDGE };
+}
+
+// Checks a picked or pasted file before it is decoded
+export function validateImageFile(file: Blob): string | null {
+  // Some platforms leave HEIC files untyped
+  const name = file instanceof File ? file.name.toLowerCase() : '';
+  const isHeicByName = name.endsWith('.heic') || name.endsWith('.heif');
+  if (!ACCEPTED_INPUT_TYPES.includes(file.type) && !isHeicByName) {
+    return `Unsupported image format${file.type ? ` (${file.type})` : ''}. Use JPEG, PNG, WebP or HEIC.`;
+  }
+  if (file.size > MAX_INPUT_BYTES) {
+    return `The image is ${(file.size / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_INPUT_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+// Checks an image right before it goes into a Veo request
+export function validateUploadImage(blob: Blob): string | null {
+  if (!UPLOAD_TYPES.includes(blob.type)) {
+    return `Images must be JPEG or PNG to be sent to Veo (got ${blob.type || 'an unknown type'}).`;
+  }
+  if (blob.size > MAX_UPLOAD_BYTES) {
+    return `An image is ${(blob.size / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+export async function decodeImage(blob: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(blob);
+  } catch {
+    throw new Error(
+      blob.type.includes('hei')
+        ? "This browser can't read HEIC images. Export the photo as JPEG and try again."
+        : "The image couldn't be read. It may be damaged or in an unsupported format.",
+    );
+  }
+}
+
+// The largest centered rectangle of the given ratio that fits the image
+export function defaultCrop(width: number, height: number, aspectRatio: AspectRatio): CropRect {
+  const ratio = aspectRatioValue(aspectRatio);
+  const cropWidth = Math.min(width, height * ratio);
+  const cropHeight = cropWidth / ratio;
+  return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+}
+
+// Whether an image already has (very nearly) the requested ratio
+export const matchesAspectRatio = (width: number, height: number, aspectRatio: AspectRatio) =>
+  Math.abs(width / height - aspectRatioValue(aspectRatio)) / aspectRatioValue(aspectRatio) < 0.02;
+
+// Sizes of the images encodeRegion produced, so drafts can be checked without decoding them again
+const encodedSizes = new WeakMap<Blob, { width: number; height: number }>();
+
+// Undefined for images that didn't come through the cropper or renderFullImage
+export const getEncodedSize = (image: Blob) => encodedSizes.get(image);
+
+// Draws `region` (in source pixels) scaled down to the target long edge and encodes it as JPEG
+async function encodeRegion(source: ImageBitmap, region: CropRect, name: string): Promise<File> {
+  // Never upscale: a small region stays at its own resolution
+  const scale = Math.min(1, TARGET_LONG_EDGE / Math.max(region.width, region.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * scale));
+  canvas.height = Math.max(1, Math.round(region.height * scale));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  // JPEG has no alpha; flatten transparent PNGs onto black rather than garbage
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, OUTPUT_TYPE, OUTPUT_QUALITY));
+  if (!blob) {
+    throw new Error('Failed to encode the image.');
+  }
+  const file = new File([blob], name, { type: OUTPUT_TYPE });
+  encodedSizes.set(file, { width: canvas.width, height: canvas.height });
+  return file;
+}
+
+/**
+ * Cuts `crop` (in source pixels) out of the image, scales it down to the
+ * target size for the ratio and re-encodes it as JPEG.
+ */
+export const renderCrop = (source: ImageBitmap, crop: CropRect, aspectRatio: AspectRatio): Promise<File> =>
+  encodeRegion(source, crop, `frame-${aspectRatio.replace(':', 'x')}.jpg`);
+
+// The whole image, scaled and re-encoded the same way, for inputs that keep their own framing
+export const renderFullImage = (source: ImageBitmap): Promise<File> =>
+  encodeRegion(source, { x: 0, y: 0, width: source.width, height: source.height }, 'image.jpg');
+
+export function imageFromClipboard(data: DataTransfer | null): File | null {
+  const item = Array.from(data?.items ?? []).find(entry => entry.kind === 'file' && entry.type.startsWith('image/'));
+  return item?.getAsFile() ?? null;
+}
@@ -0,0 +1,160 @@
+import { ConversationRecord, LanguagePair, TranscriptTurn } from '../types';
+import { downloadBlob } from './download';
+import { LIVE_LANGUAGES } from './personaStore';
+
+const LANGUAGES_KEY = 'fusion.interpreterLanguages';
+
+export type BilingualFormat = 'markdown' | 'csv';
+
+// Every Live language except "Automatic"; an interpreter has to know both sides
+export const INTERPRETER_LANGUAGES = LIVE_LANGUAGES.filter(language => language.code);
+
+export const DEFAULT_LANGUAGE_PAIR: LanguagePair = { source: 'en-US', target: 'es-ES' };
+
+export const languageLabel = (code: string) =>
+  INTERPRETER_LANGUAGES.find(language => language.code === code)?.label ?? code;
+
+export function getLanguagePair(): LanguagePair {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LANGUAGES_KEY) ?? 'null');
+    const isKnown = (code: unknown) => INTERPRETER_LANGUAGES.some(language => language.code === code);
+    if (isKnown(stored?.source) && isKnown(stored?.target)) return { source: stored.source, target: stored.target };
+  } catch {
+    // Fall through to the default pair
+  }
+  return DEFAULT_LANGUAGE_PAIR;
+}
+
+export const setLanguagePair = (pair: LanguagePair) => localStorage.setItem(LANGUAGES_KEY, JSON.stringify(pair));
+
+export function buildInterpreterInstruction({ source, target }: LanguagePair): string {
+  const a = languageLabel(source);
+  const b = languageLabel(target);
+  return `You are a professional interpreter between two people, one speaking ${a} and one speaking ${b}. ` +
+    `Whenever you hear ${a}, say the same thing in ${b}. Whenever you hear ${b}, say the same thing in ${a}. ` +
+    'Interpret faithfully and in the first person, keeping the speaker\'s tone, names and numbers. ' +
+    'Never answer questions, greet, explain or add anything of your own; only interpret what was said. ' +
+    'If you could not make out the speech, say so briefly in the language it seemed to be in.';
+}
+
+// Letters unique to a script, or common short words for languages sharing the Latin alphabet
+const LANGUAGE_HINTS: Record<string, { script?: RegExp; words?: string[] }> = {
+  en: { words: ['the', 'and', 'is', 'you', 'what', 'are', 'this', 'have', 'with', 'to', 'of', 'it'] },
+  es: { script: /[ñ¿¡]/g, words: ['el', 'la', 'que', 'de', 'y', 'es', 'los', 'por', 'usted', 'qué', 'para', 'con', 'está', 'no'] },
+  fr: { script: /[çœ]/g, words: ['le', 'la', 'les', 'et', 'est', 'je', 'vous', 'que', 'pas', 'une', 'pour', 'avec', 'c\'est'] },
+  de: { script: /[äöüß]/g, words: ['der', 'die', 'das', 'und', 'ist', 'ich', 'sie', 'nicht', 'ein', 'eine', 'mit', 'wie'] },
+  it: { words: ['il', 'che', 'di', 'è', 'e', 'non', 'per', 'sono', 'una', 'come', 'questo', 'grazie'] },
+  pt: { script: /[ãõ]/g, words: ['o', 'que', 'de', 'não', 'é', 'um', 'uma', 'para', 'com', 'você', 'obrigado', 'está'] },
+  hi: { script: /[\u0900-\u097F]/g },
+  ja: { script: /[\u3040-\u30FF]/g },
+  ko: { script: /[\uAC00-\uD7AF\u1100-\u11FF]/g },
+  cmn: { script: /[\u4E00-\u9FFF]/g },
+};
+
+const baseLanguage = (code: string) => code.split('-')[0];
+
+function languageScore(text: string, code: string): number {
+  const hints = LANGUAGE_HINTS[baseLanguage(code)];
+  if (!hints) return 0;
+  const scriptHits = hints.script ? text.match(hints.script)?.length ?? 0 : 0;
+  const words = text.toLowerCase().split(/[^\p{L}']+/u);
+  const wordHits = hints.words ? words.filter(word => hints.words!.includes(word)).length : 0;
+  return scriptHits + wordHits;
+}
+
+/**
+ * Guesses which side of the pair spoke an original, scoring it together
+ * with its translation, which should be in the other language. Returns null
+ * when the text gives nothing to go on, e.g. two Latin-script languages
+ * and a one-word turn.
+ */
+export function detectSpokenLanguage(original: string, translation: string, { source, target }: LanguagePair): string | null {
+  const asSource = languageScore(original, source) + languageScore(translation, target);
+  const asTarget = languageScore(original, target) + languageScore(translation, source);
+  if (asSource === asTarget) return null;
+  return asSource > asTarget ? source : target;
+}
+
+// An utterance and the model's rendering of it in the other language
+export interface Exchange {
+  id: string;
+  original: TranscriptTurn;
+  translation: TranscriptTurn | null;
+  // The language the original was spoken in
+  language: string;
+}
+
+/**
+ * Pairs each spoken turn with the translation that follows it. When the
+ * language can't be told from the text, people are assumed to take turns.
+ */
+export function toExchanges(turns: TranscriptTurn[], pair: LanguagePair): Exchange[] {
+  const exchanges: Exchange[] = [];
+  for (const turn of turns) {
+    const last = exchanges[exchanges.length - 1];
+    if (turn.speaker === 'model') {
+      if (last && !last.translation) {
+        last.translation = turn;
+      } else {
+        // A translation without a transcribed original, e.g. after a reconnect
+        exchanges.push({ id: turn.id, original: { ...turn, text: '' }, translation: turn, language: '' });
+      }
+    } else if (turn.speaker === 'user') {
+      exchanges.push({ id: turn.id, original: turn, translation: null, language: '' });
+    }
+  }
+
+  let previous: string | null = null;
+  for (const exchange of exchanges) {
+    const other = previous === pair.source ? pair.target : pair.source;
+    exchange.language = detectSpokenLanguage(exchange.original.text, exchange.translation?.text ?? '', pair) ?? other;
+    previous = exchange.language;
+  }
+  return exchanges;
+}
+
+// The exchange's text in one of the pair's languages, whoever spoke it
+export const textIn = (exchange: Exchange, language: string) =>
+  (exchange.language === language ? exchange.original.text : exchange.translation?.text ?? '').trim();
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const escapeCsvCell = (text: string) => /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+export function bilingualToMarkdown(conversation: ConversationRecord): string {
+  const pair = conversation.languages ?? DEFAULT_LANGUAGE_PAIR;
+  const header = `# Interpreted conversation — ${new Date(conversation.startedAt).toLocaleString()}\n\n` +
+    `| Time | ${languageLabel(pair.source)} | ${languageLabel(pair.target)} |\n| --- | --- | --- |\n`;
+  const rows = toExchanges(conversation.turns, pair).map(exchange => {
+    // The original is in bold so readers can tell who spoke
+    const cell = (language: string) => {
+      const text = escapeMarkdownCell(textIn(exchange, language));
+      return exchange.language === language && text ? `**${text}**` : text;
+    };
+    return `| ${new Date(exchange.original.startedAt).toLocaleTimeString()} | ${cell(pair.source)} | ${cell(pair.target)} |`;
+  });
+  return header + rows.join('\n') + '\n';
+}
+
+export function bilingualToCsv(conversation: ConversationRecord): string {
+  const pair = conversation.languages ?? DEFAULT_LANGUAGE_PAIR;
+  const header = ['time', 'spoken_language', pair.source, pair.target].join(',');
+  const rows = toExchanges(conversation.turns, pair).map(exchange => [
+    new Date(exchange.original.startedAt).toISOString(),
+    exchange.language,
+    textIn(exchange, pair.source),
+    textIn(exchange, pair.target),
+  ].map(escapeCsvCell).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+const EXPORTERS: Record<BilingualFormat, { render: (c: ConversationRecord) => string; mimeType: string; extension: string }> = {
+  markdown: { render: bilingualToMarkdown, mimeType: 'text/markdown', extension: 'md' },
+  csv: { render: bilingualToCsv, mimeType: 'text/csv', extension: 'csv' },
+};
+
+export function downloadBilingualTranscript(conversation: ConversationRecord, format: BilingualFormat) {
+  const exporter = EXPORTERS[format];
+  const blob = new Blob([exporter.render(conversation)], { type: exporter.mimeType });
+  downloadBlob(blob, `interpreted-${new Date(conversation.startedAt).toISOString().slice(0, 19)}.${exporter.extension}`);
+}
@@ -0,0 +1,228 @@
+import {
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { LiveService, LiveSession } from '../services';
+import { backoffDelay, classifyApiError, withRetry } from './resilience';
+
+export type LiveConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface LiveConnectionCallbacks {
+  onmessage: (message: LiveServerMessage) => void;
+  onstatechange?: (state: LiveConnectionState, detail: string) => void;
+  // Fires once, when the connection is lost for good. Not called after `close()`.
+  onclose?: (reason: string) => void;
+}
+
+const MAX_CONNECT_ATTEMPTS = 3;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+// Mic audio kept while disconnected; the oldest audio is dropped past this
+const MAX_BUFFERED_AUDIO_MS = 15000;
+
+interface PendingSend {
+  send: (session: LiveSession) => void;
+  audioMs: number;
+}
+
+const audioDurationMs = (params: LiveSendRealtimeInputParameters) => {
+  const blob = params.audio ?? params.media;
+  if (!blob?.data || !blob.mimeType?.startsWith('audio/pcm')) return 0;
+  const rate = Number(/rate=(\d+)/.exec(blob.mimeType)?.[1] ?? 16000);
+  // base64 → bytes → 16-bit samples
+  return ((blob.data.length * 3) / 4 / 2 / rate) * 1000;
+};
+
+/**
+ * A Live session that survives `goAway` notices and dropped sockets. It keeps
+ * the latest session-resumption handle, reconnects with it, and queues
+ * outgoing input while no socket is open so the caller can keep streaming.
+ */
+export class LiveConnection implements LiveSession {
+  private session: LiveSession | null = null;
+  private state: LiveConnectionState = 'connecting';
+  private resumptionHandle: string | undefined;
+  // Bumped per socket so events from a replaced socket are ignored
+  private generation = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: PendingSend[] = [];
+  private pendingAudioMs = 0;
+  // Stops the retries of the initial connect when the caller hangs up
+  private abortController = new AbortController();
+
+  constructor(
+    private live: LiveService,
+    private params: Omit<LiveConnectParameters, 'callbacks'>,
+    private callbacks: LiveConnectionCallbacks,
+  ) {}
+
+  get currentState() {
+    return this.state;
+  }
+
+  /**
+   * Resolves once the first socket is open. Transient failures are retried
+   * with backoff; others reject at once with a classified ApiError.
+   */
+  async connect() {
+    await withRetry(() => this.open(), {
+      signal: this.abortController.signal,
+      maxAttempts: MAX_CONNECT_ATTEMPTS,
+      baseDelayMs: RECONNECT_BASE_DELAY_MS,
+      maxDelayMs: RECONNECT_MAX_DELAY_MS,
+      onRetry: (error, attempt) => this.setState('connecting', `${error.userMessage} Retrying (attempt ${attempt + 1})`),
+    });
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.session) {
+      this.session.sendRealtimeInput(params);
+      return;
+    }
+    // Stale video frames are worthless after a reconnect
+    if (params.video || this.state === 'closed') return;
+
+    const audioMs = audioDurationMs(params);
+    this.pending.push({ send: session => session.sendRealtimeInput(params), audioMs });
+    this.pendingAudioMs += audioMs;
+    while (this.pendingAudioMs > MAX_BUFFERED_AUDIO_MS) {
+      const index = this.pending.findIndex(item => item.audioMs > 0);
+      if (index < 0) break;
+      this.pendingAudioMs -= this.pending[index].audioMs;
+      this.pending.splice(index, 1);
+    }
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.sendOrQueue(session => session.sendClientContent(params));
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.sendOrQueue(session => session.sendToolResponse(params));
+  }
+
+  close() {
+    this.abortController.abort();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.generation++;
+    this.session?.close();
+    this.session = null;
+    this.pending = [];
+    this.pendingAudioMs = 0;
+    this.setState('closed', 'Closed by client');
+  }
+
+  private sendOrQueue(send: (session: LiveSession) => void) {
+    if (this.session) {
+      send(this.session);
+    } else if (this.state !== 'closed') {
+      this.pending.push({ send, audioMs: 0 });
+    }
+  }
+
+  private async open() {
+    const generation = ++this.generation;
+    const { model, config } = this.params;
+    const session = await this.live.connect({
+      model,
+      config: {
+        ...config,
+        sessionResumption: { handle: this.resumptionHandle },
+        contextWindowCompression: config?.contextWindowCompression ?? { slidingWindow: {} },
+      },
+      callbacks: {
+        onmessage: (message) => {
+          if (generation === this.generation) this.handleMessage(message);
+        },
+        onclose: (e) => {
+          if (generation === this.generation) this.handleDrop(e.reason || `Connection closed (${e.code})`);
+        },
+        onerror: () => {
+          if (generation === this.generation) this.handleDrop('Connection error');
+        },
+      },
+    });
+
+    // Closed or replaced while the socket was opening
+    if (generation !== this.generation) {
+      session.close();
+      return;
+    }
+
+    this.session = session;
+    this.reconnectAttempts = 0;
+    this.setState('connected', this.resumptionHandle ? 'Session resumed' : 'Connected');
+
+    const queued = this.pending;
+    this.pending = [];
+    this.pendingAudioMs = 0;
+    queued.forEach(item => item.send(session));
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.resumptionHandle = update.newHandle;
+    }
+    if (message.goAway) {
+      this.reconnect(`Server is closing the connection${message.goAway.timeLeft ? ` in ${message.goAway.timeLeft}` : ''}`);
+    }
+    this.callbacks.onmessage(message);
+  }
+
+  private handleDrop(reason: string) {
+    // A socket often reports both an error and a close; one retry is enough.
+    // While first connecting, connect() does its own retrying.
+    if (this.state === 'closed' || this.state === 'connecting' || this.reconnectTimer) return;
+    // A rejected key or config fails the same way on every attempt
+    const error = classifyApiError(reason);
+    const isPermanent = ['auth', 'invalid', 'not-found', 'safety'].includes(error.kind);
+    if (isPermanent || this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.session = null;
+      this.setState('closed', reason);
+      this.callbacks.onclose?.(reason);
+      return;
+    }
+
+    const delay = backoffDelay(this.reconnectAttempts, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect(reason);
+    }, delay);
+    this.session = null;
+    this.setState('reconnecting', this.describeReconnect(reason));
+  }
+
+  // Opens a replacement socket; the old one, if any, is closed once it is no longer needed
+  private reconnect(reason: string) {
+    if (this.state === 'closed') return;
+    const previous = this.session;
+    this.session = null;
+    if (this.state !== 'reconnecting') {
+      this.setState('reconnecting', this.describeReconnect(reason));
+    }
+
+    this.open()
+      .finally(() => previous?.close())
+      .catch(err => {
+        console.error('Live reconnect failed', err);
+        this.handleDrop(err instanceof Error ? err.message : 'Reconnect failed');
+      });
+  }
+
+  private describeReconnect(reason: string) {
+    return this.resumptionHandle ? reason : `${reason}; no resumption handle yet, starting a new session`;
+  }
+
+  private setState(state: LiveConnectionState, detail: string) {
+    this.state = state;
+    this.callbacks.onstatechange?.(state, detail);
+  }
+}
@@ -0,0 +1,142 @@
+export type InputMode = 'always-on' | 'push-to-talk' | 'vad';
+
+// 'streaming': always-on, everything is sent; 'open'/'closed': a gated mode is or isn't sending
+export type MicState = 'streaming' | 'open' | 'closed';
+
+export interface VadOptions {
+  // Level, in dBFS, the mic has to reach to open the gate
+  thresholdDb: number;
+  // How long the level must stay under the threshold before the gate closes
+  holdMs: number;
+  // How long the level must stay over the threshold before the gate opens; filters out clicks and knocks
+  minSpeechMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  thresholdDb: -45,
+  holdMs: 600,
+  minSpeechMs: 60,
+};
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  'always-on': 'Always on',
+  'push-to-talk': 'Push to talk',
+  vad: 'Voice activated',
+};
+
+// Audio kept from just before the gate opens so the first syllable isn't clipped
+const PRE_ROLL_MS = 300;
+// The gate closes a little below the opening level so it doesn't flutter
+const HYSTERESIS_DB = 6;
+
+export interface MicGateHandlers {
+  send: (samples: Float32Array) => void;
+  activityStart: () => void;
+  activityEnd: () => void;
+  onStateChange: (state: MicState) => void;
+}
+
+export const levelDb = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / Math.max(1, samples.length));
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+};
+
+/**
+ * Decides which mic chunks reach the model. Always-on passes everything
+ * through; push-to-talk and the energy VAD send nothing while closed and
+ * bracket each utterance with explicit activity start/end signals.
+ */
+export class MicGate {
+  private state: MicState;
+  private preRoll: Float32Array[] = [];
+  private preRollMs = 0;
+  private loudMs = 0;
+  private quietMs = 0;
+  // Most recent chunk level, for meters
+  lastLevelDb = -Infinity;
+
+  constructor(
+    readonly mode: InputMode,
+    private vadOptions: VadOptions,
+    private handlers: MicGateHandlers,
+  ) {
+    this.state = mode === 'always-on' ? 'streaming' : 'closed';
+  }
+
+  get currentState() {
+    return this.state;
+  }
+
+  updateVadOptions(options: VadOptions) {
+    this.vadOptions = options;
+  }
+
+  // Push-to-talk key or button went down / up
+  setTalking(talking: boolean) {
+    if (this.mode !== 'push-to-talk') return;
+    if (talking && this.state === 'closed') {
+      this.open();
+    } else if (!talking && this.state === 'open') {
+      this.close();
+    }
+  }
+
+  process(samples: Float32Array, sampleRate: number) {
+    this.lastLevelDb = levelDb(samples);
+    const chunkMs = (samples.length / sampleRate) * 1000;
+
+    if (this.mode === 'vad') {
+      this.updateVad(samples, chunkMs);
+    }
+    if (this.state !== 'closed') {
+      this.handlers.send(samples);
+    }
+  }
+
+  private updateVad(samples: Float32Array, chunkMs: number) {
+    const { thresholdDb, holdMs, minSpeechMs } = this.vadOptions;
+
+    if (this.state === 'closed') {
+      this.loudMs = this.lastLevelDb >= thresholdDb ? this.loudMs + chunkMs : 0;
+      if (this.loudMs >= minSpeechMs) {
+        const preRoll = this.preRoll;
+        this.preRoll = [];
+        this.preRollMs = 0;
+        this.open();
+        preRoll.forEach(chunk => this.handlers.send(chunk));
+        return;
+      }
+      this.preRoll.push(samples);
+      this.preRollMs += chunkMs;
+      while (this.preRoll.length > 1 && this.preRollMs - chunkMs >= PRE_ROLL_MS) {
+        this.preRoll.shift();
+        this.preRollMs -= chunkMs;
+      }
+      return;
+    }
+
+    this.quietMs = this.lastLevelDb < thresholdDb - HYSTERESIS_DB ? this.quietMs + chunkMs : 0;
+    if (this.quietMs >= holdMs) {
+      this.close();
+    }
+  }
+
+  private open() {
+    this.loudMs = 0;
+    this.quietMs = 0;
+    this.handlers.activityStart();
+    this.setState('open');
+  }
+
+  private close() {
+    this.handlers.activityEnd();
+    this.setState('closed');
+  }
+
+  private setState(state: MicState) {
+    this.state = state;
+    this.handlers.onStateChange(state);
+  }
+}
@@ -0,0 +1,145 @@
+import { LiveConnectConfig } from '@google/genai';
+import { LivePersona } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { downloadBlob } from './download';
+
+const ACTIVE_PERSONA_KEY = 'fusion.activePersonaId';
+const EXPORT_VERSION = 1;
+
+export const LIVE_MODELS = [
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-live-2.5-flash-preview',
+  'gemini-2.0-flash-live-001',
+];
+
+// Native-audio models speak their replies directly and can't answer in text
+export const supportsTextReplies = (model: string) => !model.includes('native-audio');
+
+export const LIVE_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const LIVE_LANGUAGES: { code: string; label: string }[] = [
+  { code: '', label: 'Automatic' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Spanish (Spain)' },
+  { code: 'es-US', label: 'Spanish (US)' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'cmn-CN', label: 'Mandarin Chinese' },
+];
+
+const PERSONA_DEFAULTS: Omit<LivePersona, 'id' | 'name' | 'updatedAt'> = {
+  model: LIVE_MODELS[0],
+  voiceName: 'Kore',
+  languageCode: '',
+  systemInstruction: 'You are a helpful, witty, and concise AI assistant.',
+  temperature: 1,
+  enableAffectiveDialog: false,
+  proactiveAudio: false,
+};
+
+export const DEFAULT_PERSONAS: LivePersona[] = [
+  { ...PERSONA_DEFAULTS, id: 'default-assistant', name: 'Assistant', updatedAt: 0 },
+  {
+    ...PERSONA_DEFAULTS,
+    id: 'support-agent',
+    name: 'Support agent',
+    voiceName: 'Aoede',
+    systemInstruction: 'You are a calm, patient customer support agent. Ask clarifying questions, ' +
+      'confirm what the user needs, and walk them through solutions one step at a time.',
+    temperature: 0.6,
+    updatedAt: 0,
+  },
+  {
+    ...PERSONA_DEFAULTS,
+    id: 'spanish-tutor',
+    name: 'Spanish tutor',
+    voiceName: 'Puck',
+    languageCode: 'es-ES',
+    systemInstruction: 'You are a friendly Spanish tutor. Speak mostly in simple Spanish, gently correct ' +
+      'mistakes, and switch to English only to explain grammar the user is stuck on.',
+    updatedAt: 0,
+  },
+];
+
+export const createPersona = (name: string, base: Partial<LivePersona> = {}): LivePersona => ({
+  ...PERSONA_DEFAULTS,
+  ...base,
+  id: crypto.randomUUID(),
+  name,
+  updatedAt: Date.now(),
+});
+
+// First use seeds the store with the built-in personas so there is always something to pick
+export const listPersonas = async (): Promise<LivePersona[]> => {
+  let personas = await getAllRecords<LivePersona>('personas');
+  if (personas.length === 0) {
+    await Promise.all(DEFAULT_PERSONAS.map(persona => putRecord('personas', persona)));
+    personas = DEFAULT_PERSONAS;
+  }
+  return [...personas].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePersona = (persona: LivePersona) =>
+  putRecord('personas', { ...persona, updatedAt: Date.now() });
+
+export const deletePersona = (id: string) => deleteRecord('personas', id);
+
+export const getActivePersonaId = () => localStorage.getItem(ACTIVE_PERSONA_KEY);
+
+export const setActivePersonaId = (id: string) => localStorage.setItem(ACTIVE_PERSONA_KEY, id);
+
+export function personaToLiveConfig(persona: LivePersona): { model: string; config: LiveConnectConfig } {
+  return {
+    model: persona.model,
+    config: {
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } },
+        ...(persona.languageCode ? { languageCode: persona.languageCode } : {}),
+      },
+      systemInstruction: persona.systemInstruction,
+      temperature: persona.temperature,
+      ...(persona.enableAffectiveDialog ? { enableAffectiveDialog: true } : {}),
+      ...(persona.proactiveAudio ? { proactivity: { proactiveAudio: true } } : {}),
+    },
+  };
+}
+
+export function exportPersonas(personas: LivePersona[]) {
+  const json = JSON.stringify({ version: EXPORT_VERSION, personas }, null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), 'live-personas.json');
+}
+
+/**
+ * Parses a file produced by `exportPersonas` (or a bare array of personas).
+ * Missing fields fall back to the defaults; anything without a name is rejected.
+ */
+export function parsePersonaImport(text: string): LivePersona[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const list = Array.isArray(data) ? data : (data as { personas?: unknown })?.personas;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('No personas found in the file.');
+  }
+
+  return list.map((item, index) => {
+    if (!item || typeof item !== 'object' || typeof item.name !== 'string' || !item.name.trim()) {
+      throw new Error(`Persona ${index + 1} has no name.`);
+    }
+    const persona: LivePersona = { ...PERSONA_DEFAULTS, ...item, updatedAt: Date.now() };
+    if (typeof persona.id !== 'string' || !persona.id) {
+      persona.id = crypto.randomUUID();
+    }
+    return persona;
+  });
+}
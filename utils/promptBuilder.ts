@@ -0,0 +1,186 @@
+import { Part } from '@google/genai';
+import { getProvider } from '../services';
+import { PromptFields, PromptTemplate } from '../types';
+import { blobToBase64 } from './audioUtils';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { downloadBlob } from './download';
+import { withRetry } from './resilience';
+
+const ENHANCE_MODEL = 'gemini-2.5-flash';
+const EXPORT_VERSION = 1;
+
+export const EMPTY_PROMPT_FIELDS: PromptFields = {
+  subject: '',
+  cameraMovement: '',
+  lighting: '',
+  style: '',
+  audioCues: '',
+};
+
+export const CAMERA_MOVEMENTS = [
+  'Static shot',
+  'Slow dolly in',
+  'Dolly out',
+  'Pan left to right',
+  'Tracking shot',
+  'Orbiting shot',
+  'Crane up',
+  'Handheld',
+  'Drone flyover',
+  'Slow zoom',
+];
+
+export const LIGHTING_PRESETS = [
+  'Golden hour',
+  'Soft overcast daylight',
+  'Harsh midday sun',
+  'Blue hour',
+  'Neon night',
+  'Candlelight',
+  'Studio three-point lighting',
+  'Moody low-key lighting',
+];
+
+export const STYLE_PRESETS = [
+  'Cinematic, shallow depth of field',
+  'Documentary',
+  'Anamorphic film look',
+  '35mm film grain',
+  'Stop-motion',
+  'Anime',
+  '3D animation',
+  'Vintage VHS',
+  'Product commercial',
+];
+
+const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'product-hero',
+    name: 'Product hero shot',
+    fields: {
+      subject: 'The product rotating slowly on a reflective surface',
+      cameraMovement: 'Orbiting shot',
+      lighting: 'Studio three-point lighting',
+      style: 'Product commercial',
+      audioCues: 'Subtle whoosh, soft ambient synth pad',
+    },
+    updatedAt: 0,
+  },
+  {
+    id: 'nature-establishing',
+    name: 'Nature establishing shot',
+    fields: {
+      subject: 'A wide valley with mist rolling over the hills',
+      cameraMovement: 'Drone flyover',
+      lighting: 'Golden hour',
+      style: 'Cinematic, shallow depth of field',
+      audioCues: 'Wind, distant birdsong',
+    },
+    updatedAt: 0,
+  },
+];
+
+const ENHANCE_INSTRUCTION = `You rewrite prompts for Veo, Google's video generation model.
+Expand the user's draft into one vivid paragraph of at most 120 words that covers, in this order:
+the subject and what it does, the camera movement and framing, the lighting, the visual style,
+and the sound (dialogue in quotes, sound effects, ambient noise).
+Keep every concrete detail from the draft. If an image is attached it is the first frame of the video:
+describe motion that starts from it instead of re-describing it.
+Reply with the prompt only, without preamble, quotes or markdown.`;
+
+/**
+ * Joins the filled-in fields into a single Veo prompt, one sentence per
+ * aspect, in the order Veo's prompt guide recommends.
+ */
+export function composePrompt(fields: PromptFields): string {
+  const sentence = (text: string) => {
+    const trimmed = text.trim().replace(/[.\s]+$/, '');
+    return trimmed ? `${trimmed.charAt(0).toUpperCase()}${trimmed.slice(1)}.` : '';
+  };
+  return [
+    sentence(fields.subject),
+    sentence(fields.cameraMovement),
+    sentence(fields.lighting),
+    sentence(fields.style),
+    fields.audioCues.trim() ? sentence(`Audio: ${fields.audioCues.trim()}`) : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+export async function enhancePrompt(draft: string, image: Blob | null): Promise<string> {
+  const parts: Part[] = [];
+  if (image) {
+    parts.push({ inlineData: { data: await blobToBase64(image), mimeType: image.type || 'image/png' } });
+  }
+  parts.push({ text: draft.trim() || 'No draft yet: suggest a prompt that brings the image to life.' });
+
+  const text = await withRetry(() => getProvider().text.generateText({
+    model: ENHANCE_MODEL,
+    contents: [{ role: 'user', parts }],
+    config: { systemInstruction: ENHANCE_INSTRUCTION, temperature: 0.7 },
+  }), { maxAttempts: 3 });
+  const suggestion = text.trim().replace(/^"|"$/g, '');
+  if (!suggestion) {
+    throw new Error('The model did not suggest a prompt. Please try again.');
+  }
+  return suggestion;
+}
+
+// First use seeds a couple of examples so the picker isn't empty
+export const listPromptTemplates = async (): Promise<PromptTemplate[]> => {
+  let templates = await getAllRecords<PromptTemplate>('promptTemplates');
+  if (templates.length === 0) {
+    await Promise.all(DEFAULT_TEMPLATES.map(template => putRecord('promptTemplates', template)));
+    templates = DEFAULT_TEMPLATES;
+  }
+  return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePromptTemplate = (template: PromptTemplate) =>
+  putRecord('promptTemplates', { ...template, updatedAt: Date.now() });
+
+export const deletePromptTemplate = (id: string) => deleteRecord('promptTemplates', id);
+
+export function exportPromptTemplates(templates: PromptTemplate[]) {
+  const json = JSON.stringify({ version: EXPORT_VERSION, templates }, null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), 'veo-prompt-templates.json');
+}
+
+// Only the known fields, and only as text; anything else in the file is dropped
+function parsePromptFields(value: unknown): PromptFields {
+  const fields = { ...EMPTY_PROMPT_FIELDS };
+  if (!value || typeof value !== 'object') return fields;
+  for (const key of Object.keys(EMPTY_PROMPT_FIELDS) as (keyof PromptFields)[]) {
+    const field = (value as Record<string, unknown>)[key];
+    if (typeof field === 'string') fields[key] = field;
+  }
+  return fields;
+}
+
+// Accepts a file from `exportPromptTemplates` or a bare array of templates
+export function parsePromptTemplateImport(text: string): PromptTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const list = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('No templates found in the file.');
+  }
+
+  return list.map((item, index) => {
+    if (!item || typeof item !== 'object' || typeof item.name !== 'string' || !item.name.trim()) {
+      throw new Error(`Template ${index + 1} has no name.`);
+    }
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : crypto.randomUUID(),
+      name: item.name,
+      fields: parsePromptFields(item.fields),
+      updatedAt: Date.now(),
+    };
+  });
+}
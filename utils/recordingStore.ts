@@ -0,0 +1,30 @@
+import { LiveRecording } from '../types';
+import { encodeWav } from './audioUtils';
+import { mixToMono, RecordingLayout } from './conversationRecorder';
+import { deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { downloadBlob } from './download';
+
+export const listRecordings = async (): Promise<LiveRecording[]> => {
+  const recordings = await getAllRecords<LiveRecording>('recordings');
+  return recordings.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getRecording = (id: string) => getRecord<LiveRecording>('recordings', id);
+
+export const saveRecording = (recording: LiveRecording) => putRecord('recordings', recording);
+
+export const deleteRecording = (id: string) => deleteRecord('recordings', id);
+
+export async function downloadRecording(recording: LiveRecording, layout: RecordingLayout) {
+  const filename = `conversation-${new Date(recording.createdAt).toISOString().slice(0, 19)}-${layout}.wav`;
+  if (layout === 'stereo') {
+    downloadBlob(recording.audio, filename);
+    return;
+  }
+
+  // Decoding needs a context but no output device
+  const ctx = new OfflineAudioContext(1, 1, 24000);
+  const buffer = await ctx.decodeAudioData(await recording.audio.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  downloadBlob(encodeWav([mixToMono(channels)], buffer.sampleRate), filename);
+}
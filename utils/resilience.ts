@@ -0,0 +1,200 @@
+export type ApiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'not-found'
+  | 'invalid'
+  | 'network'
+  | 'server'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+const USER_MESSAGES: Record<ApiErrorKind, string> = {
+  auth: 'The API key was rejected or has no access to this model. Check or re-select your key.',
+  quota: 'Rate limit or quota exceeded. Wait a moment and try again, or check your quota.',
+  safety: 'The request was blocked by safety filters. Try rephrasing the prompt or using a different image.',
+  'not-found': "The model or resource wasn't found. Your key may not have access to it.",
+  invalid: 'The request was rejected as invalid.',
+  network: "Couldn't reach the API. Check your internet connection.",
+  server: 'The service is having trouble right now. Please try again shortly.',
+  timeout: 'The request took too long and was stopped.',
+  cancelled: 'Cancelled.',
+  unknown: 'An unexpected error occurred.',
+};
+
+// Worth trying again after a pause; everything else needs the user to change something
+const RETRYABLE_KINDS: ApiErrorKind[] = ['quota', 'network', 'server'];
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  // From the server's RetryInfo, when it said how long to wait
+  readonly retryAfterMs?: number;
+  // Human-readable specifics appended to the generic message, such as the filter reasons Veo gave
+  readonly detail?: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; detail?: string } = {},
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.detail = options.detail;
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  // What to show in the UI; invalid requests keep the API's own explanation
+  get userMessage() {
+    if ((this.kind === 'invalid' || this.kind === 'unknown') && this.message) return this.message;
+    return this.detail ? `${USER_MESSAGES[this.kind]} ${this.detail}` : USER_MESSAGES[this.kind];
+  }
+}
+
+const statusToKind = (status: number): ApiErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not-found';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid';
+  return null;
+};
+
+const MESSAGE_PATTERNS: [RegExp, ApiErrorKind][] = [
+  [/PERMISSION_DENIED|UNAUTHENTICATED/, 'auth'],
+  [/API key not valid|API key expired/i, 'auth'],
+  [/RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i, 'quota'],
+  [/safety|responsible ai|prohibited|raiMediaFiltered|blockReason|content (?:was )?blocked/i, 'safety'],
+  [/Requested entity was not found/i, 'not-found'],
+  [/NOT_FOUND/, 'not-found'],
+  [/failed to fetch|networkerror|network error|load failed|ERR_NETWORK|ERR_INTERNET_DISCONNECTED/i, 'network'],
+  [/UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED/, 'server'],
+  [/overloaded|backend error|service unavailable/i, 'server'],
+  [/INVALID_ARGUMENT|FAILED_PRECONDITION/, 'invalid'],
+];
+
+const parseRetryAfterMs = (message: string) => {
+  const seconds = /retry(?:Delay"?:\s*"| in )(\d+(?:\.\d+)?)s/i.exec(message)?.[1];
+  return seconds ? Number(seconds) * 1000 : undefined;
+};
+
+/**
+ * Maps anything thrown by the SDK, fetch or a WebSocket into an ApiError.
+ * Structured status codes win; otherwise the message is matched against the
+ * error names and phrases the Gemini API uses.
+ */
+export function classifyApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ApiError('cancelled', USER_MESSAGES.cancelled);
+  }
+
+  const message = typeof error === 'string'
+    ? error
+    : error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error ?? '');
+  const rawStatus = (error as { status?: unknown; code?: unknown })?.status ?? (error as { code?: unknown })?.code;
+  // DOMException and gRPC codes are small numbers, not HTTP statuses
+  const status = typeof rawStatus === 'number' && rawStatus >= 100
+    ? rawStatus
+    : Number(/\b(?:status:?\s*|code"?:\s*)([45]\d\d)\b/i.exec(message)?.[1]) || undefined;
+
+  // Safety blocks come back as 400s, so the message is more specific than the status
+  const fromMessage = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message))?.[1];
+  const kind = (fromMessage === 'safety' ? fromMessage : null)
+    ?? (status ? statusToKind(status) : null)
+    ?? fromMessage
+    ?? (error instanceof TypeError ? 'network' : 'unknown');
+
+  return new ApiError(kind, message, { status, retryAfterMs: parseRetryAfterMs(message) });
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new ApiError('cancelled', USER_MESSAGES.cancelled);
+  }
+}
+
+// Resolves after `ms`, or rejects as cancelled as soon as the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('cancelled', USER_MESSAGES.cancelled));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('cancelled', USER_MESSAGES.cancelled));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles per attempt up to `maxMs`
+ * and is then spread over its upper half, so clients that failed together
+ * don't retry in lockstep.
+ */
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number) =>
+  Math.min(baseMs * 2 ** attempt, maxMs) * (0.5 + Math.random() / 2);
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  // Epoch milliseconds after which no new attempt starts
+  deadline?: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: ApiError, attempt: number, delayMs: number) => void;
+  // Narrows which errors are retried; defaults to every retryable kind
+  shouldRetry?: (error: ApiError) => boolean;
+  // Called once when the key is rejected; resolve true to retry with new credentials
+  onAuthError?: () => Promise<boolean>;
+}
+
+/**
+ * Runs `task` until it succeeds, retrying transient failures with backoff.
+ * Always rejects with an ApiError, so callers can branch on `kind`.
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { signal, deadline, maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 30000, onRetry, shouldRetry = (error: ApiError) => error.retryable, onAuthError } = options;
+  let authRetried = false;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    if (deadline && Date.now() >= deadline) {
+      throw new ApiError('timeout', USER_MESSAGES.timeout);
+    }
+
+    try {
+      return await task();
+    } catch (err) {
+      const error = classifyApiError(err);
+      throwIfAborted(signal);
+
+      // AI Studio reports a stale key selection as "not found" as well as 403
+      if ((error.kind === 'auth' || error.kind === 'not-found') && onAuthError && !authRetried) {
+        authRetried = true;
+        if (await onAuthError()) continue;
+      }
+      if (!shouldRetry(error) || attempt + 1 >= maxAttempts) throw error;
+
+      const delay = Math.max(error.retryAfterMs ?? 0, backoffDelay(attempt, baseDelayMs, maxDelayMs));
+      if (deadline && Date.now() + delay >= deadline) throw error;
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode, VeoDraft, VeoGenerationMode } from '../types';
+import { applyVeoLinkSettings, formatRoute, parseRoute, VeoLinkSettings } from './router';
+import { draftToConfig, validateVeoDraft } from './veoRequest';
+import { DEFAULT_VEO_DRAFT } from './veoDraftStore';
+
+const parseVeoSettings = (hash: string): VeoLinkSettings | undefined => {
+  const route = parseRoute(hash);
+  return route.mode === AppMode.VEO_STUDIO ? route.settings : undefined;
+};
+
+describe('Veo link settings', () => {
+  it('leaves out fields the link does not carry', () => {
+    expect(parseVeoSettings('#/veo?v=1&p=sunset')).toEqual({ prompt: 'sunset' });
+  });
+
+  it('leaves out unknown codes', () => {
+    expect(parseVeoSettings('#/veo?v=1&m=nope&ar=4x3&p=sunset')).toEqual({ prompt: 'sunset' });
+  });
+
+  it('keeps the draft intact when applying a link with missing fields', () => {
+    const draft: VeoDraft = { ...DEFAULT_VEO_DRAFT, mode: VeoGenerationMode.TEXT_TO_VIDEO, prompt: 'A fox in the snow' };
+    const applied = applyVeoLinkSettings(draft, parseVeoSettings('#/veo?v=1&ar=9x16')!);
+
+    expect(applied.mode).toBe(VeoGenerationMode.TEXT_TO_VIDEO);
+    expect(applied.prompt).toBe('A fox in the snow');
+    expect(applied.aspectRatio).toBe('9:16');
+    expect(validateVeoDraft(applied)).toBeNull();
+    expect(draftToConfig(applied).mode).toBe(VeoGenerationMode.TEXT_TO_VIDEO);
+  });
+
+  it('round-trips an empty prompt', () => {
+    const hash = formatRoute({
+      mode: AppMode.VEO_STUDIO,
+      settings: { mode: VeoGenerationMode.IMAGE_TO_VIDEO, aspectRatio: '16:9', prompt: '' },
+    });
+    expect(hash).toContain('p=');
+
+    const applied = applyVeoLinkSettings({ ...DEFAULT_VEO_DRAFT, prompt: 'Old prompt' }, parseVeoSettings(hash)!);
+    expect(applied.prompt).toBe('');
+    expect(applied.mode).toBe(VeoGenerationMode.IMAGE_TO_VIDEO);
+  });
+
+  it('ignores settings from a newer link format', () => {
+    expect(parseVeoSettings('#/veo?v=99&p=sunset')).toBeUndefined();
+  });
+});
+
+describe('Live link settings', () => {
+  it('carries a persona that is not saved on the other end', () => {
+    const persona = {
+      name: 'Pirate guide',
+      model: 'gemini-live-2.5-flash-preview',
+      voiceName: 'Puck',
+      languageCode: 'en-GB',
+      systemInstruction: 'Talk like a pirate & keep answers short?',
+      temperature: 0.7,
+      enableAffectiveDialog: false,
+      proactiveAudio: true,
+    };
+    const hash = formatRoute({ mode: AppMode.LIVE_CONVERSATION, settings: { personaId: 'a1b2', persona } });
+    const route = parseRoute(hash);
+
+    expect(route.mode === AppMode.LIVE_CONVERSATION && route.settings).toEqual({ personaId: 'a1b2', persona });
+  });
+
+  it('leaves out persona fields it cannot read', () => {
+    const route = parseRoute('#/live?v=1&pn=Guide&pm=unknown-model&pv=Nobody&pt=9');
+    expect(route.mode === AppMode.LIVE_CONVERSATION && route.settings).toEqual({ persona: { name: 'Guide' } });
+  });
+});
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppMode, AspectRatio, LivePersona, VeoDraft, VeoDraftMode, VeoGenerationMode, VideoResolution } from '../types';
+import { LIVE_MODELS, LIVE_VOICES } from './personaStore';
+import { FAST_MODEL, fitDraftOptions, QUALITY_MODEL } from './veoRequest';
+
+/**
+ * Hash-based routes, so links and refreshes work on any static host:
+ *
+ *   #/veo                  Veo Studio
+ *   #/veo/g/<id>           a generation from the local history
+ *   #/live                 Live conversation
+ *   #/live/c/<id>          a saved conversation
+ *   #/interpret            Live interpreter
+ *   #/interpret/c/<id>     a saved interpreted session
+ *   #/usage                usage dashboard
+ *
+ * Shared settings ride along as a query, e.g. `#/veo?v=1&m=t2v&ar=9x16&p=...&seed=42`
+ * or `#/live?v=1&persona=<id>&pn=Tutor&pv=Puck&pi=...`.
+ * `v` is the settings format version; links from a newer format are opened
+ * without their settings rather than misread.
+ */
+export const LINK_FORMAT_VERSION = 1;
+
+// Settings a link can carry into Veo Studio; images can't travel in a URL
+export interface VeoLinkSettings {
+  mode?: VeoDraftMode;
+  aspectRatio?: AspectRatio;
+  prompt?: string;
+  model?: string;
+  resolution?: VideoResolution;
+  durationSeconds?: number;
+  negativePrompt?: string;
+  seed?: number;
+}
+
+// A persona's settings without its identity; fields a link leaves out take the persona defaults
+export type LinkedPersona = Pick<LivePersona, 'name'> & Partial<Omit<LivePersona, 'id' | 'name' | 'updatedAt'>>;
+
+export interface LiveLinkSettings {
+  personaId?: string;
+  // Travels with the id, so the link still works where that persona isn't saved
+  persona?: LinkedPersona;
+}
+
+export type VeoRoute = { mode: AppMode.VEO_STUDIO; generationId?: string; settings?: VeoLinkSettings };
+export type LiveRoute = { mode: AppMode.LIVE_CONVERSATION; conversationId?: string; settings?: LiveLinkSettings };
+export type InterpreterRoute = { mode: AppMode.INTERPRETER; conversationId?: string };
+export type Route = VeoRoute | LiveRoute | InterpreterRoute | { mode: AppMode.USAGE };
+
+export interface NavigateOptions {
+  // Rewrite the current history entry instead of adding one
+  replace?: boolean;
+}
+
+const MODE_PATHS: Record<AppMode, string> = {
+  [AppMode.VEO_STUDIO]: 'veo',
+  [AppMode.LIVE_CONVERSATION]: 'live',
+  [AppMode.INTERPRETER]: 'interpret',
+  [AppMode.USAGE]: 'usage',
+};
+
+const GENERATION_MODE_CODES: Record<VeoDraftMode, string> = {
+  [VeoGenerationMode.TEXT_TO_VIDEO]: 't2v',
+  [VeoGenerationMode.IMAGE_TO_VIDEO]: 'i2v',
+  [VeoGenerationMode.FIRST_LAST_FRAME]: 'flf',
+  [VeoGenerationMode.REFERENCE_IMAGES]: 'ref',
+};
+
+const ASPECT_RATIO_CODES: Record<AspectRatio, string> = {
+  '16:9': '16x9',
+  '9:16': '9x16',
+};
+
+const MODEL_CODES: Record<string, string> = {
+  [FAST_MODEL]: 'fast',
+  [QUALITY_MODEL]: 'quality',
+};
+
+const RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+
+// Whole non-negative numbers only; anything else is left out of the settings
+const parseCount = (value: string | null) =>
+  value !== null && /^\d+$/.test(value) ? Number(value) : undefined;
+
+const fromCode = <T extends string>(codes: Record<T, string>, code: string | null): T | undefined =>
+  (Object.keys(codes) as T[]).find(key => codes[key] === code);
+
+function parseVeoSettings(query: URLSearchParams): VeoLinkSettings | undefined {
+  const parsed: VeoLinkSettings = {
+    mode: fromCode(GENERATION_MODE_CODES, query.get('m')),
+    aspectRatio: fromCode(ASPECT_RATIO_CODES, query.get('ar')),
+    prompt: query.get('p') ?? undefined,
+    model: fromCode(MODEL_CODES, query.get('mdl')),
+    resolution: RESOLUTIONS.find(resolution => resolution === query.get('res')),
+    durationSeconds: parseCount(query.get('d')),
+    negativePrompt: query.get('np') ?? undefined,
+    seed: parseCount(query.get('seed')),
+  };
+  // Missing or unreadable values are left out, so applying the settings never blanks a field
+  const settings = Object.fromEntries(
+    Object.entries(parsed).filter(([, value]) => value !== undefined),
+  ) as VeoLinkSettings;
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+// Layers a link's settings over the current draft, then fits the options to the model
+export const applyVeoLinkSettings = (draft: VeoDraft, settings: VeoLinkSettings): VeoDraft =>
+  fitDraftOptions({ ...draft, ...settings });
+
+const parseTemperature = (value: string | null) =>
+  value !== null && /^\d+(\.\d+)?$/.test(value) && Number(value) <= 2 ? Number(value) : undefined;
+
+// Needs at least a name; other fields the link lacks or garbles are left out for the defaults
+function parseLinkedPersona(query: URLSearchParams): LinkedPersona | undefined {
+  const name = query.get('pn')?.trim();
+  if (!name) return undefined;
+  const parsed: LinkedPersona = {
+    name,
+    systemInstruction: query.get('pi') ?? undefined,
+    model: LIVE_MODELS.find(model => model === query.get('pm')),
+    voiceName: LIVE_VOICES.find(voice => voice === query.get('pv')),
+    languageCode: query.get('pl') ?? undefined,
+    temperature: parseTemperature(query.get('pt')),
+    enableAffectiveDialog: query.has('pa') ? query.get('pa') === '1' : undefined,
+    proactiveAudio: query.has('pp') ? query.get('pp') === '1' : undefined,
+  };
+  return Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined)) as LinkedPersona;
+}
+
+function parseLiveSettings(query: URLSearchParams): LiveLinkSettings | undefined {
+  const settings: LiveLinkSettings = {};
+  const personaId = query.get('persona');
+  if (personaId) settings.personaId = personaId;
+  const persona = parseLinkedPersona(query);
+  if (persona) settings.persona = persona;
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+// Hand-edited links may hold broken escapes
+const safeDecode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export function parseRoute(hash: string): Route {
+  const raw = hash.replace(/^#\/?/, '');
+  const queryStart = raw.indexOf('?');
+  const path = queryStart === -1 ? raw : raw.slice(0, queryStart);
+  const search = queryStart === -1 ? '' : raw.slice(queryStart + 1);
+  const [section, kind, id] = path.split('/').map(safeDecode);
+  const query = new URLSearchParams(search);
+  const version = Number(query.get('v'));
+  const hasReadableSettings = version >= 1 && version <= LINK_FORMAT_VERSION;
+
+  if (section === MODE_PATHS[AppMode.LIVE_CONVERSATION]) {
+    return {
+      mode: AppMode.LIVE_CONVERSATION,
+      conversationId: kind === 'c' && id ? id : undefined,
+      settings: hasReadableSettings ? parseLiveSettings(query) : undefined,
+    };
+  }
+  if (section === MODE_PATHS[AppMode.INTERPRETER]) {
+    return { mode: AppMode.INTERPRETER, conversationId: kind === 'c' && id ? id : undefined };
+  }
+  if (section === MODE_PATHS[AppMode.USAGE]) {
+    return { mode: AppMode.USAGE };
+  }
+  // Anything unrecognised lands in Veo Studio, as the app always has
+  return {
+    mode: AppMode.VEO_STUDIO,
+    generationId: kind === 'g' && id ? id : undefined,
+    settings: hasReadableSettings ? parseVeoSettings(query) : undefined,
+  };
+}
+
+export function formatRoute(route: Route): string {
+  let path = MODE_PATHS[route.mode];
+  const query = new URLSearchParams();
+
+  if (route.mode === AppMode.VEO_STUDIO) {
+    if (route.generationId) path += `/g/${encodeURIComponent(route.generationId)}`;
+    const { mode, aspectRatio, prompt, model, resolution, durationSeconds, negativePrompt, seed } = route.settings ?? {};
+    if (mode) query.set('m', GENERATION_MODE_CODES[mode]);
+    if (aspectRatio) query.set('ar', ASPECT_RATIO_CODES[aspectRatio]);
+    // Kept when empty: an image-to-video link may clear the prompt on purpose
+    if (prompt !== undefined) query.set('p', prompt);
+    if (model && MODEL_CODES[model]) query.set('mdl', MODEL_CODES[model]);
+    if (resolution) query.set('res', resolution);
+    if (durationSeconds !== undefined) query.set('d', String(durationSeconds));
+    if (negativePrompt) query.set('np', negativePrompt);
+    if (seed !== undefined) query.set('seed', String(seed));
+  } else if (route.mode === AppMode.LIVE_CONVERSATION) {
+    if (route.conversationId) path += `/c/${encodeURIComponent(route.conversationId)}`;
+    const { personaId, persona } = route.settings ?? {};
+    if (personaId) query.set('persona', personaId);
+    if (persona) {
+      const { name, model, voiceName, languageCode, temperature, enableAffectiveDialog, proactiveAudio, systemInstruction } = persona;
+      query.set('pn', name);
+      if (model) query.set('pm', model);
+      if (voiceName) query.set('pv', voiceName);
+      if (languageCode) query.set('pl', languageCode);
+      if (temperature !== undefined) query.set('pt', String(temperature));
+      if (enableAffectiveDialog !== undefined) query.set('pa', enableAffectiveDialog ? '1' : '0');
+      if (proactiveAudio !== undefined) query.set('pp', proactiveAudio ? '1' : '0');
+      // Last, so a link cut short by a chat app loses the tail of the instruction rather than the other settings
+      if (systemInstruction !== undefined) query.set('pi', systemInstruction.trim());
+    }
+  } else if (route.mode === AppMode.INTERPRETER) {
+    if (route.conversationId) path += `/c/${encodeURIComponent(route.conversationId)}`;
+  }
+
+  if (query.toString() === '') return `#/${path}`;
+  return `#/${path}?v=${LINK_FORMAT_VERSION}&${query}`;
+}
+
+// An absolute link to `route` on this page, for sharing
+export const buildShareUrl = (route: Route) =>
+  `${window.location.origin}${window.location.pathname}${formatRoute(route)}`;
+
+/**
+ * The route in the address bar, kept in sync with back/forward. `navigate`
+ * pushes a history entry unless told to replace the current one.
+ */
+export function useRoute(): [Route, (route: Route, options?: NavigateOptions) => void] {
+  const [hash, setHash] = useState(() => window.location.hash);
+
+  useEffect(() => {
+    const onHashChange = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Parsed once per URL so consumers can depend on the route's objects in effects
+  const route = useMemo(() => parseRoute(hash), [hash]);
+
+  const navigate = useCallback((next: Route, options: NavigateOptions = {}) => {
+    const nextHash = formatRoute(next);
+    if (nextHash === window.location.hash) return;
+    if (options.replace) {
+      // replaceState doesn't fire hashchange
+      window.history.replaceState(window.history.state, '', nextHash);
+      setHash(nextHash);
+    } else {
+      window.location.hash = nextHash;
+    }
+  }, []);
+
+  return [route, navigate];
+}
+
+/**
+ * The saved item a mode has open, kept in step with the id in its URL: it
+ * follows back/forward and opened links, and changes are written back by
+ * replacing the current entry so a refresh keeps them.
+ */
+export function useRouteSelection(
+  routeId: string | undefined,
+  replaceRoute: (id: string | undefined) => void,
+): [string | null, (id: string | null) => void] {
+  const [selectedId, setSelectedId] = useState<string | null>(routeId ?? null);
+
+  useEffect(() => {
+    setSelectedId(routeId ?? null);
+  }, [routeId]);
+
+  useEffect(() => {
+    if (selectedId === (routeId ?? null)) return;
+    replaceRoute(selectedId ?? undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId]);
+
+  return [selectedId, setSelectedId];
+}
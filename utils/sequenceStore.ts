@@ -0,0 +1,94 @@
+import { ExtendMethod, GenerationRecord, Sequence, VeoConfig, VeoGenerationMode } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { generationQueue } from './generationQueue';
+import { getVeoResolution } from './veoRequest';
+import { extractLastFrame, getVideoDuration } from './videoUtils';
+
+// Files produced by the Gemini API are deleted after two days
+const VIDEO_URI_LIFETIME_MS = 2 * 24 * 60 * 60 * 1000;
+
+export const listSequences = async (): Promise<Sequence[]> => {
+  const sequences = await getAllRecords<Sequence>('sequences');
+  return sequences.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSequence = (sequence: Sequence) => putRecord('sequences', sequence);
+
+export const deleteSequence = (id: string) => deleteRecord('sequences', id);
+
+export const findSequenceFor = (sequences: Sequence[], generationId: string) =>
+  sequences.find(sequence => sequence.segments.some(segment => segment.generationId === generationId)) ?? null;
+
+// Why Veo can't extend this clip directly, so it has to go via its final frame; null when it can
+export function getVeoExtensionBlocker(record: GenerationRecord): string | null {
+  if (getVeoResolution(record.config) !== '720p') return 'Veo only extends 720p clips';
+  if (!record.videoUri || Date.now() - record.createdAt >= VIDEO_URI_LIFETIME_MS) {
+    return 'Veo only keeps generated files for two days';
+  }
+  return null;
+}
+
+/**
+ * Queues the next segment after `source` and appends it to the sequence that
+ * ends with `source`. Extending from the middle of a sequence branches off a
+ * new sequence holding the segments up to `source`.
+ */
+export async function extendClip(
+  source: GenerationRecord,
+  prompt: string,
+  method: ExtendMethod,
+): Promise<{ record: GenerationRecord; sequence: Sequence }> {
+  if (!source.videoBlob) {
+    throw new Error('Only finished clips can be extended.');
+  }
+  const blocker = getVeoExtensionBlocker(source);
+  if (method === 'videoExtension' && blocker) {
+    throw new Error(`${blocker}. Extend it from its final frame instead.`);
+  }
+
+  const sequences = await listSequences();
+  const now = Date.now();
+  let sequence = sequences.find(candidate => candidate.segments[candidate.segments.length - 1]?.generationId === source.id);
+  if (!sequence) {
+    const containing = findSequenceFor(sequences, source.id);
+    const segments = containing
+      ? containing.segments.slice(0, containing.segments.findIndex(segment => segment.generationId === source.id) + 1)
+      : [{ generationId: source.id, trimStart: 0 }];
+    sequence = { id: crypto.randomUUID(), createdAt: now, updatedAt: now, segments };
+  }
+
+  let config: VeoConfig;
+  let trimStart = 0;
+  if (method === 'videoExtension') {
+    config = {
+      mode: VeoGenerationMode.EXTEND_VIDEO,
+      prompt,
+      aspectRatio: source.config.aspectRatio,
+      negativePrompt: source.config.negativePrompt,
+      videoUri: source.videoUri!,
+    };
+    trimStart = await getVideoDuration(source.videoBlob);
+  } else {
+    config = {
+      mode: VeoGenerationMode.IMAGE_TO_VIDEO,
+      prompt,
+      aspectRatio: source.config.aspectRatio,
+      // Keep the look of the clip being continued; person settings differ between modes
+      model: source.config.model,
+      resolution: source.config.resolution,
+      durationSeconds: source.config.durationSeconds,
+      negativePrompt: source.config.negativePrompt,
+      generateAudio: source.config.generateAudio,
+      image: await extractLastFrame(source.videoBlob),
+    };
+  }
+
+  const record = await generationQueue.enqueue(config);
+  const updated: Sequence = {
+    ...sequence,
+    updatedAt: Date.now(),
+    segments: [...sequence.segments, { generationId: record.id, trimStart }],
+  };
+  await saveSequence(updated);
+  return { record, sequence: updated };
+}
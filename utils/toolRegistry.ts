@@ -0,0 +1,80 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Tool } from '@google/genai';
+
+export interface ToolContext {
+  // Aborted when the model sends a toolCallCancellation for this call
+  signal: AbortSignal;
+}
+
+export interface LiveTool {
+  declaration: FunctionDeclaration & { name: string };
+  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<Record<string, unknown>> | Record<string, unknown>;
+}
+
+export class ToolCancelledError extends Error {
+  constructor(name: string) {
+    super(`Tool call ${name} was cancelled.`);
+    this.name = 'ToolCancelledError';
+  }
+}
+
+/**
+ * Declares local functions to a Live session and dispatches the model's
+ * tool calls to them. Each in-flight call can be cancelled by id.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, LiveTool>();
+  private inFlight = new Map<string, AbortController>();
+
+  register(tool: LiveTool): this {
+    this.tools.set(tool.declaration.name, tool);
+    return this;
+  }
+
+  // Shape expected by LiveConnectConfig.tools
+  getTools(): Tool[] {
+    if (this.tools.size === 0) return [];
+    return [{ functionDeclarations: [...this.tools.values()].map(tool => tool.declaration) }];
+  }
+
+  /**
+   * Runs the handler for a call and wraps its outcome as a FunctionResponse.
+   * Handler errors are reported back to the model; cancellation rejects with
+   * ToolCancelledError so no response is sent.
+   */
+  async dispatch(call: FunctionCall): Promise<FunctionResponse> {
+    const name = call.name ?? '';
+    const id = call.id ?? crypto.randomUUID();
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { id, name, response: { error: `Unknown tool "${name}".` } };
+    }
+
+    const controller = new AbortController();
+    this.inFlight.set(id, controller);
+
+    const cancelled = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new ToolCancelledError(name)), { once: true });
+    });
+
+    try {
+      const output = await Promise.race([
+        Promise.resolve(tool.handler(call.args ?? {}, { signal: controller.signal })),
+        cancelled,
+      ]);
+      return { id, name, response: { output } };
+    } catch (err: any) {
+      if (err instanceof ToolCancelledError) throw err;
+      return { id, name, response: { error: err.message || 'Tool failed.' } };
+    } finally {
+      this.inFlight.delete(id);
+    }
+  }
+
+  cancel(ids: string[]) {
+    ids.forEach(id => this.inFlight.get(id)?.abort());
+  }
+
+  cancelAll() {
+    this.cancel([...this.inFlight.keys()]);
+  }
+}
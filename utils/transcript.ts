@@ -0,0 +1,147 @@
+import { ConversationRecord, ToolInvocation, TranscriptSpeaker, TranscriptTurn } from '../types';
+import { downloadBlob } from './download';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'srt';
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  user: 'You',
+  model: 'Gemini',
+  tool: 'Tool',
+};
+
+/**
+ * Folds a partial transcription into the running transcript. Fragments from
+ * the same speaker extend the open turn; a fragment from the other speaker
+ * closes it and starts a new one.
+ */
+export function appendTranscription(
+  turns: TranscriptTurn[],
+  speaker: TranscriptSpeaker,
+  text: string,
+  now = Date.now(),
+): TranscriptTurn[] {
+  if (!text) return turns;
+  const last = turns[turns.length - 1];
+
+  if (last && !last.isFinal && last.speaker === speaker) {
+    return [...turns.slice(0, -1), { ...last, text: last.text + text, endedAt: now }];
+  }
+
+  const closed = last && !last.isFinal ? [...turns.slice(0, -1), { ...last, isFinal: true }] : turns;
+  return [
+    ...closed,
+    { id: crypto.randomUUID(), speaker, text: text.trimStart(), startedAt: now, endedAt: now, isFinal: false },
+  ];
+}
+
+// Marks the open turn as finished, e.g. on turnComplete or interruption
+export function finalizeTurn(turns: TranscriptTurn[], speaker?: TranscriptSpeaker): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  if (!last || last.isFinal || (speaker && last.speaker !== speaker)) return turns;
+  return [...turns.slice(0, -1), { ...last, text: last.text.trim(), isFinal: true }];
+}
+
+// A typed message arrives whole, so it is final as soon as it is added
+export function appendTextTurn(
+  turns: TranscriptTurn[],
+  speaker: TranscriptSpeaker,
+  text: string,
+  now = Date.now(),
+): TranscriptTurn[] {
+  return [
+    ...finalizeTurn(turns),
+    { id: crypto.randomUUID(), speaker, text, startedAt: now, endedAt: now, isFinal: true, isTyped: true },
+  ];
+}
+
+// Tool calls close the turn in progress so the transcript stays chronological
+export function appendToolInvocation(
+  turns: TranscriptTurn[],
+  invocation: ToolInvocation,
+  now = Date.now(),
+): TranscriptTurn[] {
+  return [
+    ...finalizeTurn(turns),
+    {
+      id: crypto.randomUUID(),
+      speaker: 'tool',
+      text: describeToolInvocation(invocation),
+      startedAt: now,
+      endedAt: now,
+      isFinal: true,
+      toolInvocation: invocation,
+    },
+  ];
+}
+
+export function updateToolInvocation(
+  turns: TranscriptTurn[],
+  callId: string,
+  patch: Partial<ToolInvocation>,
+  now = Date.now(),
+): TranscriptTurn[] {
+  return turns.map(turn => {
+    if (turn.toolInvocation?.callId !== callId) return turn;
+    const invocation = { ...turn.toolInvocation, ...patch };
+    return { ...turn, toolInvocation: invocation, text: describeToolInvocation(invocation), endedAt: now };
+  });
+}
+
+export function describeToolInvocation(invocation: ToolInvocation): string {
+  const call = `${invocation.name}(${JSON.stringify(invocation.args)})`;
+  switch (invocation.status) {
+    case 'running':
+      return `${call} …`;
+    case 'cancelled':
+      return `${call} cancelled`;
+    default:
+      return `${call} → ${JSON.stringify(invocation.result ?? {})}`;
+  }
+}
+
+const formatClock = (ms: number) => new Date(ms).toLocaleTimeString();
+
+const formatSrtTime = (ms: number) => {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(millis, 3)}`;
+};
+
+export function transcriptToMarkdown(conversation: ConversationRecord): string {
+  const header = `# Live conversation — ${new Date(conversation.startedAt).toLocaleString()}\n`;
+  const body = conversation.turns
+    .map(turn => `**${SPEAKER_LABELS[turn.speaker]}** _(${formatClock(turn.startedAt)})_\n\n${turn.text.trim()}\n`)
+    .join('\n');
+  return `${header}\n${body}`;
+}
+
+export function transcriptToJson(conversation: ConversationRecord): string {
+  return JSON.stringify(conversation, null, 2);
+}
+
+export function transcriptToSrt(conversation: ConversationRecord): string {
+  return conversation.turns
+    .map((turn, index) => {
+      const start = turn.startedAt - conversation.startedAt;
+      // Give single-fragment turns enough time on screen to be read
+      const end = Math.max(turn.endedAt - conversation.startedAt, start + 1500);
+      return `${index + 1}\n${formatSrtTime(start)} --> ${formatSrtTime(end)}\n${SPEAKER_LABELS[turn.speaker]}: ${turn.text.trim()}\n`;
+    })
+    .join('\n');
+}
+
+const EXPORTERS: Record<TranscriptFormat, { render: (c: ConversationRecord) => string; mimeType: string; extension: string }> = {
+  markdown: { render: transcriptToMarkdown, mimeType: 'text/markdown', extension: 'md' },
+  json: { render: transcriptToJson, mimeType: 'application/json', extension: 'json' },
+  srt: { render: transcriptToSrt, mimeType: 'application/x-subrip', extension: 'srt' },
+};
+
+export function downloadTranscript(conversation: ConversationRecord, format: TranscriptFormat) {
+  const exporter = EXPORTERS[format];
+  const blob = new Blob([exporter.render(conversation)], { type: exporter.mimeType });
+  downloadBlob(blob, `conversation-${new Date(conversation.startedAt).toISOString().slice(0, 19)}.${exporter.extension}`);
+}
@@ -0,0 +1,242 @@
+import { MediaModality, UsageMetadata } from '@google/genai';
+import {
+  BudgetLimits,
+  GenerationRecord,
+  LiveTokenKind,
+  LiveUsageRecord,
+  PriceTable,
+  UsageRecord,
+  VeoConfig,
+  VeoUsageRecord,
+} from '../types';
+import { clearRecords, getAllRecords, putRecord } from './db';
+import { getVeoDurationSeconds, getVeoModel, getVeoResolution } from './veoRequest';
+
+const PRICES_KEY = 'fusion.usagePrices';
+const BUDGET_KEY = 'fusion.usageBudget';
+
+export const LIVE_TOKEN_KINDS: LiveTokenKind[] = ['inputText', 'inputAudio', 'outputText', 'outputAudio'];
+
+const emptyTokens = (): Record<LiveTokenKind, number> => ({ inputText: 0, inputAudio: 0, outputText: 0, outputAudio: 0 });
+
+// Published Gemini API list prices when this was written; editable in the dashboard as they change
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  veo: {
+    'veo-3.1-fast-generate-preview': 0.15,
+    'veo-3.1-generate-preview': 0.4,
+  },
+  live: {
+    'gemini-2.5-flash-native-audio-preview-09-2025': { inputText: 0.5, inputAudio: 3, outputText: 2, outputAudio: 12 },
+    'gemini-live-2.5-flash-preview': { inputText: 0.5, inputAudio: 3, outputText: 2, outputAudio: 12 },
+    'gemini-2.0-flash-live-001': { inputText: 0.35, inputAudio: 2.1, outputText: 1.5, outputAudio: 8.5 },
+  },
+};
+
+const NO_BUDGET: BudgetLimits = { daily: null, monthly: null };
+
+const readJson = <T>(key: string): Partial<T> => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+};
+
+// Stored prices override the defaults model by model, so new defaults still show up
+export function getPriceTable(): PriceTable {
+  const stored = readJson<PriceTable>(PRICES_KEY);
+  return {
+    veo: { ...DEFAULT_PRICE_TABLE.veo, ...stored.veo },
+    live: { ...DEFAULT_PRICE_TABLE.live, ...stored.live },
+  };
+}
+
+export const setPriceTable = (prices: PriceTable) => localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+
+export const resetPriceTable = () => localStorage.removeItem(PRICES_KEY);
+
+export const getBudgetLimits = (): BudgetLimits => ({ ...NO_BUDGET, ...readJson<BudgetLimits>(BUDGET_KEY) });
+
+export const setBudgetLimits = (limits: BudgetLimits) => localStorage.setItem(BUDGET_KEY, JSON.stringify(limits));
+
+export const listUsage = async (): Promise<UsageRecord[]> => {
+  const records = await getAllRecords<UsageRecord>('usage');
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveUsage = (record: UsageRecord) => putRecord('usage', record);
+
+export const clearUsage = () => clearRecords('usage');
+
+/**
+ * Records how a Veo request ended. Failures are kept too, so the dashboard
+ * can show them; `videoCount` is what the request is expected to be billed for.
+ */
+export async function recordVeoUsage(
+  record: GenerationRecord,
+  status: VeoUsageRecord['status'],
+  videoCount: number,
+) {
+  const usage: VeoUsageRecord = {
+    id: record.id,
+    kind: 'veo',
+    createdAt: record.createdAt,
+    model: getVeoModel(record.config),
+    resolution: getVeoResolution(record.config),
+    durationSeconds: getVeoDurationSeconds(record.config),
+    videoCount,
+    status,
+  };
+  try {
+    await saveUsage(usage);
+  } catch (err) {
+    console.error("Failed to record usage", err);
+  }
+}
+
+export const createLiveUsage = (id: string, model: string): LiveUsageRecord => {
+  const now = Date.now();
+  return { id, kind: 'live', createdAt: now, updatedAt: now, model, tokens: emptyTokens() };
+};
+
+// Camera and screen frames are billed at the audio rate, so they count as audio input
+const isAudioRate = (modality?: MediaModality) =>
+  modality === MediaModality.AUDIO || modality === MediaModality.VIDEO || modality === MediaModality.IMAGE;
+
+/**
+ * Adds one Live `usageMetadata` report to the session's totals. Each report
+ * covers a single turn, including the context the model re-read for it.
+ */
+export function addLiveUsage(record: LiveUsageRecord, usage: UsageMetadata): LiveUsageRecord {
+  const tokens = { ...record.tokens };
+
+  if (usage.promptTokensDetails?.length) {
+    for (const { modality, tokenCount = 0 } of usage.promptTokensDetails) {
+      tokens[isAudioRate(modality) ? 'inputAudio' : 'inputText'] += tokenCount;
+    }
+  } else {
+    tokens.inputText += usage.promptTokenCount ?? 0;
+  }
+  tokens.inputText += usage.toolUsePromptTokenCount ?? 0;
+
+  if (usage.responseTokensDetails?.length) {
+    for (const { modality, tokenCount = 0 } of usage.responseTokensDetails) {
+      tokens[modality === MediaModality.AUDIO ? 'outputAudio' : 'outputText'] += tokenCount;
+    }
+  } else {
+    tokens.outputText += usage.responseTokenCount ?? 0;
+  }
+  // Thinking is billed as output text
+  tokens.outputText += usage.thoughtsTokenCount ?? 0;
+
+  return { ...record, tokens, updatedAt: Date.now() };
+}
+
+// Estimated USD; models missing from the price table count as free
+export function estimateCost(record: UsageRecord, prices: PriceTable): number {
+  if (record.kind === 'veo') {
+    return record.videoCount * record.durationSeconds * (prices.veo[record.model] ?? 0);
+  }
+  const rates = prices.live[record.model];
+  if (!rates) return 0;
+  return LIVE_TOKEN_KINDS.reduce((sum, kind) => sum + (record.tokens[kind] * (rates[kind] ?? 0)) / 1e6, 0);
+}
+
+// What queueing these configs would cost if every video came back
+export const estimateVeoCost = (configs: Pick<VeoConfig, 'mode' | 'model' | 'numberOfVideos' | 'durationSeconds'>[], prices = getPriceTable()) =>
+  configs.reduce(
+    (sum, config) => sum + (config.numberOfVideos ?? 1) * getVeoDurationSeconds(config) * (prices.veo[getVeoModel(config)] ?? 0),
+    0,
+  );
+
+export interface DailyUsage {
+  // Local calendar day, YYYY-MM-DD
+  day: string;
+  cost: number;
+  veoRequests: number;
+  veoFailed: number;
+  veoVideos: number;
+  veoSeconds: number;
+  liveSessions: number;
+  liveTokens: Record<LiveTokenKind, number>;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Days with any recorded usage, newest first
+export function summarizeByDay(records: UsageRecord[], prices: PriceTable): DailyUsage[] {
+  const days = new Map<string, DailyUsage>();
+  for (const record of records) {
+    const day = dayKey(record.createdAt);
+    let summary = days.get(day);
+    if (!summary) {
+      summary = { day, cost: 0, veoRequests: 0, veoFailed: 0, veoVideos: 0, veoSeconds: 0, liveSessions: 0, liveTokens: emptyTokens() };
+      days.set(day, summary);
+    }
+    summary.cost += estimateCost(record, prices);
+    if (record.kind === 'veo') {
+      summary.veoRequests++;
+      if (record.status === 'failed') summary.veoFailed++;
+      summary.veoVideos += record.videoCount;
+      summary.veoSeconds += record.videoCount * record.durationSeconds;
+    } else {
+      summary.liveSessions++;
+      for (const kind of LIVE_TOKEN_KINDS) summary.liveTokens[kind] += record.tokens[kind];
+    }
+  }
+  return [...days.values()].sort((a, b) => b.day.localeCompare(a.day));
+}
+
+// Estimated spend today and this calendar month
+export function spendSoFar(records: UsageRecord[], prices: PriceTable, now = Date.now()) {
+  const today = dayKey(now);
+  const month = today.slice(0, 7);
+  let day = 0;
+  let monthly = 0;
+  for (const record of records) {
+    const key = dayKey(record.createdAt);
+    if (!key.startsWith(month)) continue;
+    const cost = estimateCost(record, prices);
+    monthly += cost;
+    if (key === today) day += cost;
+  }
+  return { daily: day, monthly };
+}
+
+export const formatUsd = (value: number) => value > 0 && value < 0.01 ? '<$0.01' : `$${value.toFixed(2)}`;
+
+const budgetWarning = (period: 'daily' | 'monthly', spent: number, estimate: number, limit: number | null) => {
+  if (limit === null || spent + estimate < limit) return null;
+  const scope = period === 'daily' ? "today's" : "this month's";
+  return estimate > 0
+    ? `This would bring ${scope} estimated spend to ${formatUsd(spent + estimate)}, over your ${period} budget of ${formatUsd(limit)}.`
+    : `${scope[0].toUpperCase()}${scope.slice(1)} estimated spend is ${formatUsd(spent)}, which has reached your ${period} budget of ${formatUsd(limit)}.`;
+};
+
+/**
+ * Returns a warning when spending `estimateUsd` more would cross a budget
+ * limit, or null when it fits (or no limit is set).
+ */
+export async function checkBudget(estimateUsd: number): Promise<string | null> {
+  const limits = getBudgetLimits();
+  if (limits.daily === null && limits.monthly === null) return null;
+  const spent = spendSoFar(await listUsage(), getPriceTable());
+  return budgetWarning('daily', spent.daily, estimateUsd, limits.daily)
+    ?? budgetWarning('monthly', spent.monthly, estimateUsd, limits.monthly);
+}
+
+// Budgets are soft: the user can always go ahead
+export async function confirmWithinBudget(estimateUsd: number): Promise<boolean> {
+  let warning: string | null = null;
+  try {
+    warning = await checkBudget(estimateUsd);
+  } catch (err) {
+    console.error("Couldn't check the budget", err);
+  }
+  return !warning || window.confirm(`${warning} Continue anyway?`);
+}
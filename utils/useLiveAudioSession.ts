@@ -0,0 +1,455 @@
+import { useEffect, useRef, useState } from 'react';
+import { LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { getProvider } from '../services';
+import { reportKeyRejected } from '../services/credentials';
+import { ConversationRecord, LiveUsageRecord } from '../types';
+import { DEFAULT_MIC_CAPTURE_OPTIONS, MicCapture, startMicCapture } from './audioCapture';
+import {
+  applyOutputDevice,
+  AudioDeviceLists,
+  AudioDeviceSettings,
+  getAudioDeviceSettings,
+  isOnPreferredInput,
+  listAudioDevices,
+  openMicrophone,
+  resolveOutputId,
+  setAudioDeviceSettings,
+  watchAudioDevices,
+} from './audioDevices';
+import { createBlob, decode, decodeAudioData } from './audioUtils';
+import { saveConversation } from './conversationStore';
+import { LiveConnection } from './liveConnection';
+import { classifyApiError } from './resilience';
+import { appendTranscription, finalizeTurn } from './transcript';
+import { addLiveUsage, createLiveUsage, saveUsage } from './usageStore';
+
+// Live replies are 24 kHz mono PCM
+const OUTPUT_SAMPLE_RATE = 24000;
+
+export interface LiveSessionHandlers {
+  onLog?: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export interface LiveSessionOptions {
+  model: string;
+  // Everything but the transcription settings, which the session adds
+  config: LiveConnectConfig;
+  // Whether replies are spoken, and so transcribed into the model's turns; text replies are left to `onMessage`
+  spokenReplies?: boolean;
+  chunkMs?: number;
+  // Stored on the conversation record when the session starts
+  conversationFields?: Pick<ConversationRecord, 'languages'>;
+  // Gets every mic chunk; without it chunks are sent to the model as they come
+  onMicChunk?: (samples: Float32Array, sampleRate: number, outputTime: number) => void;
+  // Runs after usage and transcriptions are handled and before the turn is finalized
+  onMessage?: (message: LiveServerMessage) => void;
+  onModelAudio?: (samples: Float32Array, startTime: number) => void;
+  onInterrupted?: (outputTime: number) => void;
+  onConnected?: (outputContext: AudioContext) => void;
+  // Called once the session is torn down, with the finished conversation if one was started
+  onEnded?: (conversation: ConversationRecord | null) => void;
+}
+
+/**
+ * A Live session with its audio around it: the microphone (on the chosen
+ * device, switched when devices come and go), capture at 16 kHz, playback
+ * of spoken replies on the chosen speaker, the running transcript and token
+ * usage. Components add their own input handling and UI on top.
+ */
+export function useLiveAudioSession(handlers: LiveSessionHandlers) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [conversation, setConversation] = useState<ConversationRecord | null>(null);
+  const [deviceSettings, setDeviceSettings] = useState<AudioDeviceSettings>(getAudioDeviceSettings);
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceLists>({ inputs: [], outputs: [] });
+
+  // Callbacks from the latest render, for socket and device events
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const optionsRef = useRef<LiveSessionOptions | null>(null);
+
+  // Mirrors `conversation` so socket callbacks always see the latest transcript
+  const conversationRef = useRef<ConversationRecord | null>(null);
+  // Token totals of the current session, saved after every usage report
+  const liveUsageRef = useRef<LiveUsageRecord | null>(null);
+  const sessionRef = useRef<LiveConnection | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const mediaStreamRef = useRef<MediaStream | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const nextStartTimeRef = useRef(0);
+  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Fed by the mic and by replies, for visualizers
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const micVisSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  // Device choices as of now, for the devicechange handler
+  const deviceSettingsRef = useRef(deviceSettings);
+  // Output the session plays through; '' is the system default
+  const outputIdRef = useRef('');
+
+  const log = (message: string) => handlersRef.current.onLog?.(message);
+
+  const updateConversation = (update: (current: ConversationRecord) => ConversationRecord, persist = false) => {
+    if (!conversationRef.current) return;
+    const next = update(conversationRef.current);
+    conversationRef.current = next;
+    setConversation(next);
+    if (persist) {
+      saveConversation(next).catch(err => console.error("Failed to save transcript", err));
+    }
+  };
+
+  const refreshAudioDevices = async (): Promise<AudioDeviceLists | null> => {
+    try {
+      const devices = await listAudioDevices();
+      setAudioDevices(devices);
+      return devices;
+    } catch (err) {
+      console.error(err);
+      return null;
+    }
+  };
+
+  // Plays through the chosen speaker, or the default while it is unplugged
+  const routeOutput = async (devices: AudioDeviceLists | null) => {
+    const audioCtx = audioContextRef.current;
+    if (!audioCtx || !devices) return;
+    const outputId = resolveOutputId(devices.outputs, deviceSettingsRef.current.outputDeviceId);
+    if (outputId === outputIdRef.current) return;
+    if (await applyOutputDevice(audioCtx, outputId)) {
+      outputIdRef.current = outputId;
+      log(`Playing through ${devices.outputs.find(device => device.deviceId === outputId)?.label || 'the default speaker'}`);
+    }
+  };
+
+  /**
+   * Reopens the microphone with the current device settings and moves capture
+   * onto it. The Live session and whatever the caller does with chunks carry on untouched.
+   */
+  const switchMicrophone = async () => {
+    const capture = micCaptureRef.current;
+    const audioCtx = audioContextRef.current;
+    if (!capture || !audioCtx) return;
+    try {
+      const stream = await openMicrophone(deviceSettingsRef.current);
+      // Hung up, or switched again, while the device was opening
+      if (micCaptureRef.current !== capture || audioContextRef.current !== audioCtx) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const previous = mediaStreamRef.current;
+      mediaStreamRef.current = stream;
+      capture.setStream(stream);
+      if (analyserRef.current) {
+        micVisSourceRef.current?.disconnect();
+        const visSource = audioCtx.createMediaStreamSource(stream);
+        visSource.connect(analyserRef.current);
+        micVisSourceRef.current = visSource;
+      }
+      previous?.getTracks().forEach(track => track.stop());
+      log(`Switched to ${stream.getAudioTracks()[0]?.label || 'microphone'}`);
+    } catch (err: any) {
+      console.error(err);
+      handlersRef.current.onError(`Couldn't switch microphone: ${err?.message || err}`);
+    }
+  };
+
+  // Plugging in or removing a device mid-session follows the chosen devices, falling back to the defaults
+  const handleDeviceChange = async () => {
+    const devices = await refreshAudioDevices();
+    if (!devices) return;
+    const stream = mediaStreamRef.current;
+    if (stream && micCaptureRef.current && !isOnPreferredInput(stream, devices, deviceSettingsRef.current.inputDeviceId)) {
+      await switchMicrophone();
+    }
+    await routeOutput(devices);
+  };
+
+  const updateDeviceSettings = (settings: AudioDeviceSettings) => {
+    const previous = deviceSettingsRef.current;
+    deviceSettingsRef.current = settings;
+    setDeviceSettings(settings);
+    setAudioDeviceSettings(settings);
+    if (!micCaptureRef.current) return;
+    if (settings.inputDeviceId !== previous.inputDeviceId || settings.processing !== previous.processing) {
+      switchMicrophone();
+    }
+    if (settings.outputDeviceId !== previous.outputDeviceId) {
+      refreshAudioDevices().then(routeOutput);
+    }
+  };
+
+  const stopPlayback = () => {
+    sourcesRef.current.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    sourcesRef.current.clear();
+    setIsSpeaking(false);
+  };
+
+  const playReply = async (base64Audio: string, audioCtx: AudioContext) => {
+    setIsSpeaking(true);
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioCtx.currentTime);
+    const audioBuffer = await decodeAudioData(decode(base64Audio), audioCtx, OUTPUT_SAMPLE_RATE, 1);
+
+    const sourceNode = audioCtx.createBufferSource();
+    sourceNode.buffer = audioBuffer;
+    sourceNode.connect(audioCtx.destination);
+    if (analyserRef.current) sourceNode.connect(analyserRef.current);
+    sourceNode.addEventListener('ended', () => {
+      sourcesRef.current.delete(sourceNode);
+      if (sourcesRef.current.size === 0) setIsSpeaking(false);
+    });
+
+    sourceNode.start(nextStartTimeRef.current);
+    optionsRef.current?.onModelAudio?.(audioBuffer.getChannelData(0), nextStartTimeRef.current);
+    nextStartTimeRef.current += audioBuffer.duration;
+    sourcesRef.current.add(sourceNode);
+  };
+
+  // Whether a reply is playing, or finished less than `tailSeconds` ago
+  const isPlaying = (tailSeconds = 0) => {
+    const audioCtx = audioContextRef.current;
+    return !!audioCtx && audioCtx.currentTime < nextStartTimeRef.current + tailSeconds;
+  };
+
+  const stop = async () => {
+    const options = optionsRef.current;
+    optionsRef.current = null;
+
+    sessionRef.current?.close();
+    sessionRef.current = null;
+
+    analyserRef.current = null;
+    micVisSourceRef.current?.disconnect();
+    micVisSourceRef.current = null;
+
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+    mediaStreamRef.current = null;
+    micCaptureRef.current?.stop();
+    micCaptureRef.current = null;
+    if (inputAudioContextRef.current) {
+      try { await inputAudioContextRef.current.close(); } catch (e) { console.error(e); }
+      inputAudioContextRef.current = null;
+    }
+
+    stopPlayback();
+    if (audioContextRef.current) {
+      try { await audioContextRef.current.close(); } catch (e) { console.error(e); }
+      audioContextRef.current = null;
+    }
+
+    const current = conversationRef.current;
+    conversationRef.current = null;
+    setConversation(null);
+    liveUsageRef.current = null;
+    setIsConnected(false);
+    setIsReconnecting(false);
+    options?.onEnded?.(current ? { ...current, turns: finalizeTurn(current.turns), endedAt: Date.now() } : null);
+  };
+
+  const handleMessage = async (message: LiveServerMessage, audioCtx: AudioContext) => {
+    const options = optionsRef.current;
+    if (!options) return;
+
+    if (message.usageMetadata && liveUsageRef.current) {
+      const usage = addLiveUsage(liveUsageRef.current, message.usageMetadata);
+      liveUsageRef.current = usage;
+      saveUsage(usage).catch(err => console.error("Failed to record usage", err));
+    }
+
+    const inputText = message.serverContent?.inputTranscription?.text;
+    if (inputText) {
+      updateConversation(c => ({ ...c, turns: appendTranscription(c.turns, 'user', inputText) }));
+    }
+    const outputText = message.serverContent?.outputTranscription?.text;
+    if (outputText && options.spokenReplies !== false) {
+      updateConversation(c => ({ ...c, turns: appendTranscription(c.turns, 'model', outputText) }));
+    }
+
+    options.onMessage?.(message);
+
+    if (message.serverContent?.turnComplete) {
+      updateConversation(c => ({ ...c, turns: finalizeTurn(c.turns) }), true);
+    }
+
+    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio) {
+      await playReply(base64Audio, audioCtx);
+    }
+
+    if (message.serverContent?.interrupted) {
+      log("Interrupted");
+      stopPlayback();
+      options.onInterrupted?.(audioCtx.currentTime);
+      nextStartTimeRef.current = audioCtx.currentTime;
+      updateConversation(c => ({ ...c, turns: finalizeTurn(c.turns, 'model') }), true);
+    }
+  };
+
+  const start = async (options: LiveSessionOptions) => {
+    optionsRef.current = options;
+    // Hung up, or started again, while this start was still waiting on the mic, worklet or socket
+    const isAbandoned = () => optionsRef.current !== options;
+    let stream: MediaStream | null = null;
+    let capture: MicCapture | null = null;
+    const contexts: AudioContext[] = [];
+    // stop() only frees what has reached the refs; this frees the rest of what this start opened
+    const release = () => {
+      stream?.getTracks().forEach(track => track.stop());
+      capture?.stop();
+      contexts.forEach(ctx => {
+        if (ctx.state !== 'closed') ctx.close().catch(err => console.error(err));
+      });
+    };
+
+    try {
+      log("Requesting microphone...");
+      stream = await openMicrophone(deviceSettingsRef.current);
+      if (isAbandoned()) return release();
+      mediaStreamRef.current = stream;
+      // Device names are readable now that the mic is allowed
+      const devices = await refreshAudioDevices();
+      if (isAbandoned()) return release();
+
+      log("Initializing AudioContext...");
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+      const audioCtx = new AudioContextClass({ sampleRate: OUTPUT_SAMPLE_RATE });
+      contexts.push(audioCtx);
+      audioContextRef.current = audioCtx;
+      nextStartTimeRef.current = audioCtx.currentTime;
+      outputIdRef.current = '';
+      await routeOutput(devices);
+      if (isAbandoned()) return release();
+
+      // Input context at the device rate; the capture worklet resamples to 16k for the model
+      const sampleRate = DEFAULT_MIC_CAPTURE_OPTIONS.targetSampleRate;
+      const inputAudioCtx = new AudioContextClass();
+      contexts.push(inputAudioCtx);
+      inputAudioContextRef.current = inputAudioCtx;
+      capture = await startMicCapture(
+        inputAudioCtx,
+        stream,
+        { ...DEFAULT_MIC_CAPTURE_OPTIONS, chunkMs: options.chunkMs ?? DEFAULT_MIC_CAPTURE_OPTIONS.chunkMs },
+        (samples) => {
+          if (options.onMicChunk) {
+            options.onMicChunk(samples, sampleRate, audioCtx.currentTime);
+          } else {
+            sendAudio(samples);
+          }
+        },
+      );
+      if (isAbandoned()) return release();
+      micCaptureRef.current = capture;
+      log(`Capturing ${stream.getAudioTracks()[0]?.label || 'microphone'} at ${inputAudioCtx.sampleRate} Hz → ${sampleRate} Hz`);
+
+      const analyser = audioCtx.createAnalyser();
+      analyser.fftSize = 256;
+      analyserRef.current = analyser;
+      const visSource = audioCtx.createMediaStreamSource(stream);
+      visSource.connect(analyser);
+      micVisSourceRef.current = visSource;
+
+      log("Connecting to Gemini Live...");
+      const spokenReplies = options.spokenReplies !== false;
+      const connection = new LiveConnection(
+        getProvider().live,
+        {
+          model: options.model,
+          config: {
+            ...options.config,
+            inputAudioTranscription: {},
+            ...(spokenReplies ? { outputAudioTranscription: {} } : {}),
+          },
+        },
+        {
+          // The socket may be replaced mid-call; the audio graph and transcript carry on
+          onstatechange: (state, detail) => {
+            if (state === 'connecting') {
+              // Only reported while connect() waits to retry
+              log(detail);
+            } else if (state === 'reconnecting') {
+              log(`Reconnecting: ${detail}`);
+              setIsReconnecting(true);
+            } else if (state === 'connected' && conversationRef.current) {
+              log(detail);
+              setIsReconnecting(false);
+            }
+          },
+          onmessage: (message) => {
+            handleMessage(message, audioCtx);
+          },
+          onclose: (reason) => {
+            log(`Disconnected: ${reason}`);
+            const error = classifyApiError(reason);
+            if (error.kind === 'auth') reportKeyRejected();
+            handlersRef.current.onError(`Connection lost: ${error.userMessage}`);
+            stop();
+          },
+        },
+      );
+      sessionRef.current = connection;
+      await connection.connect();
+      // stop() closed the socket and everything before it
+      if (isAbandoned()) return;
+
+      setIsConnected(true);
+      const started: ConversationRecord = {
+        id: crypto.randomUUID(),
+        startedAt: Date.now(),
+        turns: [],
+        ...options.conversationFields,
+      };
+      conversationRef.current = started;
+      setConversation(started);
+      liveUsageRef.current = createLiveUsage(started.id, options.model);
+      saveConversation(started).catch(err => console.error("Failed to save transcript", err));
+      options.onConnected?.(audioCtx);
+    } catch (err) {
+      // A failure after hanging up is no longer this start's to report, and stop() would end a newer session
+      if (isAbandoned()) return release();
+      const error = classifyApiError(err);
+      // Hung up while connect() was still retrying
+      if (error.kind === 'cancelled') return;
+      if (error.kind === 'auth') reportKeyRejected();
+      console.error(err);
+      handlersRef.current.onError(error.userMessage);
+      stop();
+    }
+  };
+
+  // Takes chunks as captured; audio sent while (re)connecting is buffered by the connection
+  const sendAudio = (samples: Float32Array) =>
+    sessionRef.current?.sendRealtimeInput({ audio: createBlob(samples, DEFAULT_MIC_CAPTURE_OPTIONS.targetSampleRate) });
+
+  useEffect(() => {
+    refreshAudioDevices();
+    const unwatchDevices = watchAudioDevices(() => { handleDeviceChange(); });
+    return () => {
+      unwatchDevices();
+      stop();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return {
+    isConnected,
+    isSpeaking,
+    isReconnecting,
+    conversation,
+    updateConversation,
+    start,
+    stop,
+    sendAudio,
+    isPlaying,
+    sessionRef,
+    analyserRef,
+    deviceSettings,
+    audioDevices,
+    updateDeviceSettings,
+    refreshAudioDevices,
+  };
+}
@@ -0,0 +1,20 @@
+import { VeoDraft, VeoGenerationMode } from '../types';
+
+export const DEFAULT_VEO_DRAFT: VeoDraft = {
+  mode: VeoGenerationMode.IMAGE_TO_VIDEO,
+  prompt: 'Cinematic motion, high quality',
+  aspectRatio: '16:9',
+  image: null,
+  firstFrame: null,
+  lastFrame: null,
+  referenceImages: [],
+};
+
+// Kept in memory so the draft survives switching modes and Live tools can read it
+let currentDraft: VeoDraft = DEFAULT_VEO_DRAFT;
+
+export const getVeoDraft = () => currentDraft;
+
+export const setVeoDraft = (draft: VeoDraft) => {
+  currentDraft = draft;
+};
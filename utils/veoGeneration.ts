@@ -0,0 +1,155 @@
+import { getProvider } from '../services';
+import { ensureApiKey, reportKeyRejected, selectAiStudioKey } from '../services/credentials';
+import { GenerationState, VeoConfig } from '../types';
+import { ApiError, classifyApiError, sleep, throwIfAborted, withRetry } from './resilience';
+import { buildVideoRequest } from './veoRequest';
+
+export type GenerationProgress = Partial<Pick<GenerationState, 'status' | 'statusMessage' | 'operationName' | 'videoUri'>>;
+
+// Reporting progress may persist it; runners await the report where losing it would orphan work.
+export type ProgressReporter = (progress: GenerationProgress) => Promise<void> | void;
+
+// Poll quickly at first, then back off so resumed jobs don't hammer the API
+const INITIAL_POLL_INTERVAL_MS = 5000;
+const MAX_POLL_INTERVAL_MS = 30000;
+const POLL_BACKOFF_FACTOR = 1.5;
+// Veo usually finishes within a few minutes; stop polling well after that
+const GENERATION_DEADLINE_MS = 20 * 60 * 1000;
+
+export interface GenerationOptions {
+  // Aborting stops polling locally; Veo may still finish the job on its side
+  signal?: AbortSignal;
+  // Epoch milliseconds after which the generation is abandoned
+  deadline?: number;
+}
+
+/**
+ * Whether a failed submission was certainly turned away, so sending it again
+ * can't start a second billed generation. Network errors and most 5xx
+ * responses could come after Veo accepted the job, so they aren't retried.
+ */
+const isSubmissionRejected = (error: ApiError) => error.status === 429 || error.status === 503 || error.kind === 'quota';
+
+const reportRetry = (onProgress: ProgressReporter) => (error: ApiError, attempt: number, delayMs: number) => {
+  onProgress({ statusMessage: `${error.userMessage} Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...` });
+};
+
+/**
+ * Runs a single Veo generation end to end: submits the request, polls the
+ * long-running operation and downloads the resulting video.
+ */
+export async function runVeoGeneration(
+  config: VeoConfig,
+  onProgress: ProgressReporter,
+  { signal, deadline = Date.now() + GENERATION_DEADLINE_MS }: GenerationOptions = {},
+): Promise<Blob[]> {
+  const provider = getProvider();
+
+  // The mock backend needs no key
+  if (provider.name !== 'mock') {
+    await onProgress({ status: 'running', statusMessage: 'Checking API Key...' });
+    const hasKey = await ensureApiKey();
+    if (!hasKey) {
+      throw new Error('An API key is required for Veo generation. Add one from the key menu in the header.');
+    }
+  }
+
+  await onProgress({ status: 'running', statusMessage: 'Initializing Veo session...' });
+
+  const request = await buildVideoRequest(config);
+  throwIfAborted(signal);
+
+  await onProgress({ statusMessage: 'Sending request to Gemini...' });
+
+  const operation = await withRetry(
+    () => provider.video.generateVideos({ ...request, config: { ...request.config, abortSignal: signal } }),
+    {
+      signal,
+      deadline,
+      // Each accepted submission is billed, so only retry when it clearly wasn't accepted
+      maxAttempts: 3,
+      shouldRetry: isSubmissionRejected,
+      onRetry: reportRetry(onProgress),
+      // Offer the AI Studio picker once; elsewhere the header flags the key for the user to fix
+      onAuthError: () => {
+        reportKeyRejected();
+        return selectAiStudioKey();
+      },
+    },
+  );
+
+  if (!operation.name) {
+    throw new Error('Veo did not return an operation to track.');
+  }
+
+  // Persist the operation name before polling so a reload can pick it back up
+  await onProgress({
+    status: 'polling',
+    statusMessage: 'Dreaming... This may take a moment.',
+    operationName: operation.name,
+  });
+
+  return resumeVeoGeneration(operation.name, onProgress, { signal, deadline });
+}
+
+/**
+ * Polls an already-submitted Veo operation until it finishes, then downloads
+ * every video it returned. Used both for fresh requests and for operations
+ * restored after a reload.
+ */
+export async function resumeVeoGeneration(
+  operationName: string,
+  onProgress: ProgressReporter,
+  { signal, deadline = Date.now() + GENERATION_DEADLINE_MS }: GenerationOptions = {},
+): Promise<Blob[]> {
+  const { video } = getProvider();
+  // A failed poll doesn't lose the operation, so it can be retried more freely than the submission
+  const poll = () => withRetry(() => video.getVideosOperation(operationName, signal), {
+    signal,
+    maxAttempts: 6,
+    onRetry: reportRetry(onProgress),
+  });
+  let operation = await poll();
+
+  // Polling loop with backoff
+  let interval = INITIAL_POLL_INTERVAL_MS;
+  while (!operation.done) {
+    if (Date.now() + interval > deadline) {
+      throw new ApiError('timeout', 'Veo generation deadline passed.', {
+        detail: `Veo did not finish within ${GENERATION_DEADLINE_MS / 60000} minutes.`,
+      });
+    }
+    await sleep(interval, signal);
+    interval = Math.min(interval * POLL_BACKOFF_FACTOR, MAX_POLL_INTERVAL_MS);
+    await onProgress({ status: 'polling', statusMessage: 'Still dreaming... generating pixels...' });
+    operation = await poll();
+  }
+
+  if (operation.error) {
+    throw classifyApiError((operation.error.message as string) || 'Video generation failed.');
+  }
+
+  const videoUris = (operation.response?.generatedVideos ?? [])
+    .map(generated => generated.video?.uri)
+    .filter((uri): uri is string => !!uri);
+  if (videoUris.length === 0) {
+    // Veo drops outputs its filters reject instead of failing the operation
+    const reasons = operation.response?.raiMediaFilteredReasons;
+    if (operation.response?.raiMediaFilteredCount) {
+      throw new ApiError('safety', 'Every video was filtered by safety checks.', { detail: reasons?.join(' ') });
+    }
+    throw new Error('No video URI returned.');
+  }
+
+  // Keep the first URI so the clip can be fed back to Veo for extension
+  await onProgress({
+    status: 'downloading',
+    statusMessage: videoUris.length > 1 ? `Downloading ${videoUris.length} videos...` : 'Downloading video...',
+    videoUri: videoUris[0],
+  });
+
+  return withRetry(() => Promise.all(videoUris.map(uri => video.downloadFile(uri, signal))), {
+    signal,
+    onRetry: reportRetry(onProgress),
+  });
+}
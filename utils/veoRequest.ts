@@ -0,0 +1,342 @@
+import { GenerateVideosParameters, VideoGenerationReferenceType } from '@google/genai';
+import { PersonGeneration, VeoConfig, VeoDraft, VeoGenerationMode, VideoResolution } from '../types';
+import { blobToBase64 } from './audioUtils';
+import { getEncodedSize, matchesAspectRatio, validateUploadImage } from './imagePreprocess';
+
+export const MAX_REFERENCE_IMAGES = 3;
+
+export const GENERATION_MODE_LABELS: Record<VeoGenerationMode, string> = {
+  [VeoGenerationMode.TEXT_TO_VIDEO]: 'Text only',
+  [VeoGenerationMode.IMAGE_TO_VIDEO]: 'Image to video',
+  [VeoGenerationMode.FIRST_LAST_FRAME]: 'First + last frame',
+  [VeoGenerationMode.REFERENCE_IMAGES]: 'Reference images',
+  [VeoGenerationMode.EXTEND_VIDEO]: 'Extension',
+};
+
+export const FAST_MODEL = 'veo-3.1-fast-generate-preview';
+export const QUALITY_MODEL = 'veo-3.1-generate-preview';
+
+export interface VeoModelCapabilities {
+  label: string;
+  modes: VeoGenerationMode[];
+  resolutions: VideoResolution[];
+  durations: number[];
+  // Whether the soundtrack can be switched off; Veo 3.1 on the Gemini API always generates one
+  optionalAudio: boolean;
+  // Videos one request may ask for; Veo 3.1 on the Gemini API returns one
+  maxVideos: number;
+}
+
+export const VEO_MODEL_CAPABILITIES: Record<string, VeoModelCapabilities> = {
+  [FAST_MODEL]: {
+    label: 'Fast',
+    // Reference images and video extension are only accepted by the full-quality model
+    modes: [VeoGenerationMode.TEXT_TO_VIDEO, VeoGenerationMode.IMAGE_TO_VIDEO, VeoGenerationMode.FIRST_LAST_FRAME],
+    resolutions: ['720p', '1080p'],
+    durations: [4, 6, 8],
+    optionalAudio: false,
+    maxVideos: 1,
+  },
+  [QUALITY_MODEL]: {
+    label: 'Quality',
+    modes: Object.values(VeoGenerationMode),
+    resolutions: ['720p', '1080p'],
+    durations: [4, 6, 8],
+    optionalAudio: false,
+    maxVideos: 1,
+  },
+};
+
+export const VEO_MODELS = Object.keys(VEO_MODEL_CAPABILITIES);
+export const DEFAULT_RESOLUTION: VideoResolution = '720p';
+// Clips are 8 seconds unless asked otherwise; an extension always adds 7 seconds to the source
+const CLIP_SECONDS = 8;
+const EXTENSION_SECONDS = 7;
+const MAX_SEED = 2 ** 32 - 1;
+
+export const PERSON_GENERATION_LABELS: Record<PersonGeneration, string> = {
+  allow_all: 'People of any age',
+  allow_adult: 'Adults only',
+  dont_allow: 'No people',
+};
+
+// Veo 3.1 takes a single person setting per mode: anyone from text, adults only from images
+const PERSON_GENERATION_BY_MODE: Record<VeoGenerationMode, PersonGeneration[]> = {
+  [VeoGenerationMode.TEXT_TO_VIDEO]: ['allow_all'],
+  [VeoGenerationMode.IMAGE_TO_VIDEO]: ['allow_adult'],
+  [VeoGenerationMode.FIRST_LAST_FRAME]: ['allow_adult'],
+  [VeoGenerationMode.REFERENCE_IMAGES]: ['allow_adult'],
+  [VeoGenerationMode.EXTEND_VIDEO]: ['allow_all'],
+};
+
+type VeoOptionFields = Pick<VeoConfig, 'mode' | 'model' | 'resolution' | 'durationSeconds'>;
+
+const toImage = async (blob: Blob) => {
+  // Also covers configs rerun from the library, which skip draft validation
+  const problem = validateUploadImage(blob);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return { imageBytes: await blobToBase64(blob), mimeType: blob.type };
+};
+
+/**
+ * Returns a user-facing reason the draft can't be submitted, or null when
+ * it is complete for its generation mode.
+ */
+export function validateVeoDraft(draft: VeoDraft): string | null {
+  const missing = validateDraftFields(draft);
+  if (missing) return missing;
+  const invalidOption = validateVeoOptions(draftToConfig(draft));
+  if (invalidOption) return invalidOption;
+  // Only the images the mode sends; the draft keeps the others around for switching back
+  for (const image of getConfigImages(draftToConfig(draft))) {
+    const problem = validateUploadImage(image);
+    if (problem) return problem;
+  }
+  return validateFrameAspectRatio(draftToConfig(draft));
+}
+
+/**
+ * Frames fill the whole video, so one cropped for the other orientation
+ * would come back letterboxed. Reference images keep their own framing and
+ * aren't checked.
+ */
+function validateFrameAspectRatio(config: VeoConfig): string | null {
+  const frames: [string, Blob][] =
+    config.mode === VeoGenerationMode.IMAGE_TO_VIDEO ? [['source image', config.image]]
+    : config.mode === VeoGenerationMode.FIRST_LAST_FRAME ? [['first frame', config.firstFrame], ['last frame', config.lastFrame]]
+    : [];
+  for (const [name, frame] of frames) {
+    const size = getEncodedSize(frame);
+    if (size && !matchesAspectRatio(size.width, size.height, config.aspectRatio)) {
+      return `The ${name} isn't ${config.aspectRatio}. Crop it again for this aspect ratio.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks the model, resolution, duration and other options against what the
+ * model accepts for the config's mode, so a bad combination is refused up
+ * front rather than after minutes of polling.
+ */
+export function validateVeoOptions(config: VeoConfig): string | null {
+  const model = getVeoModel(config);
+  const capabilities = VEO_MODEL_CAPABILITIES[model];
+  if (!capabilities) return `Unknown Veo model "${model}".`;
+  if (!capabilities.modes.includes(config.mode)) {
+    return `${GENERATION_MODE_LABELS[config.mode]} needs the ${VEO_MODEL_CAPABILITIES[QUALITY_MODEL].label} model.`;
+  }
+  if (!getAllowedResolutions(config).includes(getVeoResolution(config))) {
+    return `${getVeoResolution(config)} isn't available for ${GENERATION_MODE_LABELS[config.mode].toLowerCase()}.`;
+  }
+  const durations = getAllowedDurations(config);
+  if (!durations.includes(getVeoDurationSeconds(config))) {
+    return durations.length === 1
+      ? `Clips must be ${durations[0]} seconds long with these settings.`
+      : `Clips can be ${durations.slice(0, -1).join(', ')} or ${durations[durations.length - 1]} seconds long.`;
+  }
+  if (config.personGeneration && !getAllowedPersonGeneration(config.mode).includes(config.personGeneration)) {
+    return `"${PERSON_GENERATION_LABELS[config.personGeneration]}" isn't available for ${GENERATION_MODE_LABELS[config.mode].toLowerCase()}.`;
+  }
+  const maxVideos = getMaxVideos(config);
+  if ((config.numberOfVideos ?? 1) > maxVideos) {
+    return maxVideos === 1 ? 'This model returns one video per request.' : `This model returns at most ${maxVideos} videos per request.`;
+  }
+  if (config.generateAudio === false && !capabilities.optionalAudio) {
+    return 'This model always generates audio.';
+  }
+  if (config.seed !== undefined && (!Number.isInteger(config.seed) || config.seed < 0 || config.seed > MAX_SEED)) {
+    return `The seed must be a whole number from 0 to ${MAX_SEED}.`;
+  }
+  return null;
+}
+
+function validateDraftFields(draft: VeoDraft): string | null {
+  switch (draft.mode) {
+    case VeoGenerationMode.TEXT_TO_VIDEO:
+      return draft.prompt.trim() ? null : 'Please describe the video you want.';
+    case VeoGenerationMode.IMAGE_TO_VIDEO:
+      return draft.image ? null : 'Please select an image first.';
+    case VeoGenerationMode.FIRST_LAST_FRAME:
+      if (!draft.firstFrame) return 'Please select a first frame.';
+      if (!draft.lastFrame) return 'Please select a last frame.';
+      return null;
+    case VeoGenerationMode.REFERENCE_IMAGES:
+      if (draft.referenceImages.length === 0) return 'Please add at least one reference image.';
+      if (draft.referenceImages.length > MAX_REFERENCE_IMAGES) {
+        return `Use at most ${MAX_REFERENCE_IMAGES} reference images.`;
+      }
+      if (!draft.prompt.trim()) return 'Reference images need a prompt describing the scene.';
+      if (draft.aspectRatio !== '16:9') return 'Reference images only support landscape (16:9).';
+      return null;
+  }
+}
+
+// Narrows a draft that passed validateVeoDraft to the config for its mode
+export function draftToConfig(draft: VeoDraft): VeoConfig {
+  const base = {
+    prompt: draft.prompt,
+    aspectRatio: draft.aspectRatio,
+    model: draft.model,
+    resolution: draft.resolution,
+    durationSeconds: draft.durationSeconds,
+    negativePrompt: draft.negativePrompt?.trim() || undefined,
+    seed: draft.seed,
+    personGeneration: draft.personGeneration,
+    generateAudio: draft.generateAudio,
+  };
+  switch (draft.mode) {
+    case VeoGenerationMode.TEXT_TO_VIDEO:
+      return { ...base, mode: draft.mode };
+    case VeoGenerationMode.IMAGE_TO_VIDEO:
+      return { ...base, mode: draft.mode, image: draft.image! };
+    case VeoGenerationMode.FIRST_LAST_FRAME:
+      return { ...base, mode: draft.mode, firstFrame: draft.firstFrame!, lastFrame: draft.lastFrame! };
+    case VeoGenerationMode.REFERENCE_IMAGES:
+      return { ...base, mode: draft.mode, referenceImages: draft.referenceImages };
+  }
+}
+
+function getConfigImages(config: VeoConfig): Blob[] {
+  switch (config.mode) {
+    case VeoGenerationMode.IMAGE_TO_VIDEO:
+      return [config.image];
+    case VeoGenerationMode.FIRST_LAST_FRAME:
+      return [config.firstFrame, config.lastFrame];
+    case VeoGenerationMode.REFERENCE_IMAGES:
+      return config.referenceImages.map(reference => reference.image);
+    default:
+      return [];
+  }
+}
+
+// The image that best represents a config in previews and the library
+export function getConfigPreviewImage(config: VeoConfig): Blob | null {
+  switch (config.mode) {
+    case VeoGenerationMode.TEXT_TO_VIDEO:
+      return null;
+    case VeoGenerationMode.IMAGE_TO_VIDEO:
+      return config.image;
+    case VeoGenerationMode.FIRST_LAST_FRAME:
+      return config.firstFrame;
+    case VeoGenerationMode.REFERENCE_IMAGES:
+      return config.referenceImages[0]?.image ?? null;
+    case VeoGenerationMode.EXTEND_VIDEO:
+      return null;
+  }
+}
+
+export function getDraftPreviewImage(draft: VeoDraft): Blob | null {
+  switch (draft.mode) {
+    case VeoGenerationMode.TEXT_TO_VIDEO:
+      return null;
+    case VeoGenerationMode.IMAGE_TO_VIDEO:
+      return draft.image;
+    case VeoGenerationMode.FIRST_LAST_FRAME:
+      return draft.firstFrame;
+    case VeoGenerationMode.REFERENCE_IMAGES:
+      return draft.referenceImages[0]?.image ?? null;
+  }
+}
+
+// The chosen model, or the cheapest one that handles the mode
+export const getVeoModel = (config: Pick<VeoConfig, 'mode' | 'model'>) =>
+  config.model ?? (VEO_MODEL_CAPABILITIES[FAST_MODEL].modes.includes(config.mode) ? FAST_MODEL : QUALITY_MODEL);
+
+export const getVeoResolution = (config: Pick<VeoConfig, 'resolution'>) => config.resolution ?? DEFAULT_RESOLUTION;
+
+// Seconds of new footage per video, which is what Veo bills for
+export const getVeoDurationSeconds = (config: Pick<VeoConfig, 'mode' | 'durationSeconds'>) =>
+  config.mode === VeoGenerationMode.EXTEND_VIDEO ? EXTENSION_SECONDS : config.durationSeconds ?? CLIP_SECONDS;
+
+// Extensions continue a 720p clip at 720p
+export const getAllowedResolutions = (config: VeoOptionFields): VideoResolution[] =>
+  config.mode === VeoGenerationMode.EXTEND_VIDEO ? ['720p'] : VEO_MODEL_CAPABILITIES[getVeoModel(config)]?.resolutions ?? [];
+
+// 1080p and reference images only come as full-length clips
+export const getAllowedDurations = (config: VeoOptionFields): number[] => {
+  if (config.mode === VeoGenerationMode.EXTEND_VIDEO) return [EXTENSION_SECONDS];
+  const durations = VEO_MODEL_CAPABILITIES[getVeoModel(config)]?.durations ?? [];
+  return getVeoResolution(config) === '1080p' || config.mode === VeoGenerationMode.REFERENCE_IMAGES
+    ? durations.filter(duration => duration === CLIP_SECONDS)
+    : durations;
+};
+
+export const getMaxVideos = (config: Pick<VeoConfig, 'mode' | 'model'>) =>
+  VEO_MODEL_CAPABILITIES[getVeoModel(config)]?.maxVideos ?? 1;
+
+export const getAllowedPersonGeneration = (mode: VeoGenerationMode) => PERSON_GENERATION_BY_MODE[mode];
+
+/**
+ * Moves the draft's options onto the nearest combination the model accepts,
+ * e.g. after switching modes, so the form never sits in an invalid state.
+ */
+export function fitDraftOptions(draft: VeoDraft): VeoDraft {
+  const model = VEO_MODEL_CAPABILITIES[getVeoModel(draft)]?.modes.includes(draft.mode)
+    ? draft.model
+    : getVeoModel({ mode: draft.mode });
+  const resolutions = getAllowedResolutions({ ...draft, model });
+  const resolution = resolutions.includes(getVeoResolution(draft)) ? draft.resolution : resolutions[0];
+  const durations = getAllowedDurations({ ...draft, model, resolution });
+  const durationSeconds = durations.includes(getVeoDurationSeconds(draft)) ? draft.durationSeconds : durations[durations.length - 1];
+  const personGeneration = draft.personGeneration && getAllowedPersonGeneration(draft.mode).includes(draft.personGeneration)
+    ? draft.personGeneration
+    : undefined;
+  const generateAudio = VEO_MODEL_CAPABILITIES[getVeoModel({ ...draft, model })]?.optionalAudio ? draft.generateAudio : undefined;
+  return { ...draft, model, resolution, durationSeconds, personGeneration, generateAudio };
+}
+
+export async function buildVideoRequest(config: VeoConfig): Promise<GenerateVideosParameters> {
+  // Reruns, batches and extensions skip the draft checks
+  const invalidOption = validateVeoOptions(config);
+  if (invalidOption) {
+    throw new Error(invalidOption);
+  }
+
+  const request: GenerateVideosParameters = {
+    model: getVeoModel(config),
+    prompt: config.prompt,
+    config: {
+      numberOfVideos: config.numberOfVideos ?? 1,
+      resolution: getVeoResolution(config),
+      aspectRatio: config.aspectRatio,
+      negativePrompt: config.negativePrompt,
+      seed: config.seed,
+      personGeneration: config.personGeneration,
+      generateAudio: config.generateAudio,
+    }
+  };
+  // The extension's length is fixed by the API and may not be sent
+  if (config.mode !== VeoGenerationMode.EXTEND_VIDEO) {
+    request.config!.durationSeconds = getVeoDurationSeconds(config);
+  }
+
+  switch (config.mode) {
+    case VeoGenerationMode.TEXT_TO_VIDEO:
+      break;
+    case VeoGenerationMode.IMAGE_TO_VIDEO:
+      request.image = await toImage(config.image);
+      break;
+    case VeoGenerationMode.FIRST_LAST_FRAME:
+      request.image = await toImage(config.firstFrame);
+      request.config!.lastFrame = await toImage(config.lastFrame);
+      break;
+    case VeoGenerationMode.REFERENCE_IMAGES:
+      request.config!.referenceImages = await Promise.all(
+        config.referenceImages.map(async reference => ({
+          image: await toImage(reference.image),
+          referenceType: reference.referenceType === 'STYLE'
+            ? VideoGenerationReferenceType.STYLE
+            : VideoGenerationReferenceType.ASSET,
+        })),
+      );
+      break;
+    case VeoGenerationMode.EXTEND_VIDEO:
+      request.video = { uri: config.videoUri };
+      break;
+  }
+
+  return request;
+}
@@ -0,0 +1,65 @@
+import { EditorClip, GenerationRecord, Sequence } from '../types';
+
+export const CROSSFADE_OPTIONS = [0, 0.25, 0.5, 1];
+
+// Shortest piece a trim may leave, so a clip never collapses to nothing
+export const MIN_CLIP_SECONDS = 0.25;
+
+export const createEditorClip = (generationId: string, videoIndex = 0, trimStart = 0): EditorClip => ({
+  id: crypto.randomUUID(),
+  generationId,
+  videoIndex,
+  trimStart,
+  trimEnd: null,
+});
+
+// Segments already skip the footage a Veo extension repeats, so the edit starts from the same cut
+export const clipsFromSequence = (sequence: Sequence): EditorClip[] =>
+  sequence.segments.map(segment => createEditorClip(segment.generationId, 0, segment.trimStart));
+
+export const getClipBlob = (record: GenerationRecord | undefined, videoIndex: number): Blob | undefined =>
+  record?.videoBlobs?.[videoIndex] ?? (videoIndex === 0 ? record?.videoBlob : undefined);
+
+export const videoKey = (clip: Pick<EditorClip, 'generationId' | 'videoIndex'>) => `${clip.generationId}:${clip.videoIndex}`;
+
+// Keeps in and out points inside the video and at least MIN_CLIP_SECONDS apart
+export function clampTrim(clip: EditorClip, duration: number): EditorClip {
+  const trimEnd = clip.trimEnd === null ? null : Math.min(duration, Math.max(MIN_CLIP_SECONDS, clip.trimEnd));
+  const trimStart = Math.max(0, Math.min(clip.trimStart, (trimEnd ?? duration) - MIN_CLIP_SECONDS));
+  return { ...clip, trimStart, trimEnd: trimEnd !== null && trimEnd >= duration ? null : trimEnd };
+}
+
+export const clipLength = (clip: EditorClip, duration: number) => (clip.trimEnd ?? duration) - clip.trimStart;
+
+export interface VoiceRecording {
+  // Resolves to the recorded audio once the recorder has flushed
+  stop(): Promise<Blob>;
+  cancel(): void;
+}
+
+// Records narration from the microphone with the browser's default audio codec
+export async function startVoiceRecording(): Promise<VoiceRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+    };
+  });
+  recorder.start();
+
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    },
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+}
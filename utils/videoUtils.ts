@@ -0,0 +1,269 @@
+import { mixToMono } from './conversationRecorder';
+
+export interface ClipSource {
+  blob: Blob;
+  // Seconds into the clip to start from / stop at (defaults: 0 / full length)
+  start?: number;
+  end?: number;
+}
+
+export const loadVideo = (blob: Blob): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('Could not read video file.'));
+    video.src = URL.createObjectURL(blob);
+  });
+};
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Could not seek video.'));
+    video.currentTime = time;
+  });
+};
+
+export async function getVideoDuration(blob: Blob): Promise<number> {
+  const video = await loadVideo(blob);
+  const duration = video.duration;
+  releaseVideo(video);
+  return duration;
+}
+
+/**
+ * Grabs the final frame of a video as an image, e.g. to seed the next clip
+ * of a sequence with image-to-video.
+ */
+export async function extractLastFrame(blob: Blob, mimeType = 'image/png'): Promise<Blob> {
+  const video = await loadVideo(blob);
+  try {
+    // Seeking exactly to `duration` can yield a blank frame in some browsers
+    await seekTo(video, Math.max(0, video.duration - 0.05));
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(frame => frame ? resolve(frame) : reject(new Error('Could not capture frame.')), mimeType);
+    });
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+export type ExportFormat = 'webm' | 'mp4';
+
+const RECORDER_TYPES: Record<ExportFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4'],
+};
+
+export const canExportAs = (format: ExportFormat) =>
+  RECORDER_TYPES[format].some(type => MediaRecorder.isTypeSupported(type));
+
+// The preferred container first, then whatever else this browser can record
+const pickRecorderMimeType = (format: ExportFormat) => {
+  const other: ExportFormat = format === 'webm' ? 'mp4' : 'webm';
+  return [...RECORDER_TYPES[format], ...RECORDER_TYPES[other]].find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+};
+
+export const extensionFor = (blob: Blob) => blob.type.includes('mp4') ? 'mp4' : 'webm';
+
+/**
+ * How long each clip overlaps the next. A fade never takes more than half
+ * of either clip, so short clips still get their moment alone.
+ */
+export const crossfadeDurations = (lengths: number[], crossfadeSeconds: number) =>
+  lengths.slice(1).map((length, i) => Math.max(0, Math.min(crossfadeSeconds, length / 2, lengths[i] / 2)));
+
+// Length of clips played back to back with overlapping crossfades
+export const timelineLength = (lengths: number[], crossfadeSeconds: number) =>
+  lengths.reduce((sum, length) => sum + length, 0)
+    - crossfadeDurations(lengths, crossfadeSeconds).reduce((sum, fade) => sum + fade, 0);
+
+export interface VoiceOver {
+  audio: Blob;
+  // Seconds into the output where the narration starts
+  offset: number;
+  volume: number;
+}
+
+export interface RenderOptions {
+  // Seconds each clip blends into the next, picture and sound alike
+  crossfadeSeconds?: number;
+  // Level of the clips' own soundtrack, e.g. lowered under narration
+  clipVolume?: number;
+  voiceOver?: VoiceOver;
+  format?: ExportFormat;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Draws a frame scaled to fit, so clips of another aspect ratio are letterboxed
+const drawContained = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, alpha: number) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.globalAlpha = alpha;
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  ctx.globalAlpha = 1;
+};
+
+// Narration is mixed down to mono so a stereo Live recording isn't split hard left and right
+async function decodeVoiceOver(audioCtx: AudioContext, audio: Blob): Promise<AudioBuffer> {
+  const decoded = await audioCtx.decodeAudioData(await audio.arrayBuffer());
+  if (decoded.numberOfChannels === 1) return decoded;
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i));
+  const mono = audioCtx.createBuffer(1, decoded.length, decoded.sampleRate);
+  mono.copyToChannel(mixToMono(channels), 0);
+  return mono;
+}
+
+/**
+ * Plays clips into a canvas on one timeline and records the result with
+ * MediaRecorder, blending neighbours over `crossfadeSeconds` and mixing in an
+ * optional voice-over. Runs in real time, so rendering takes as long as the
+ * output.
+ */
+export async function renderClips(clips: ClipSource[], options: RenderOptions = {}): Promise<Blob> {
+  const { crossfadeSeconds = 0, clipVolume = 1, voiceOver, format = 'webm', signal, onProgress } = options;
+  if (clips.length === 0) {
+    throw new Error('Nothing to export.');
+  }
+
+  const videos = await Promise.all(clips.map(clip => loadVideo(clip.blob)));
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  const audioCtx = new AudioContextClass();
+  const audioDestination = audioCtx.createMediaStreamDestination();
+  let stream: MediaStream | null = null;
+
+  try {
+    const ranges = clips.map((clip, i) => ({
+      start: clip.start ?? 0,
+      end: Math.min(clip.end ?? videos[i].duration, videos[i].duration),
+    }));
+    const lengths = ranges.map(range => Math.max(0, range.end - range.start));
+    const fades = crossfadeDurations(lengths, crossfadeSeconds);
+    // Where each clip begins on the output timeline
+    const offsets = lengths.map((_, i) => lengths.slice(0, i).reduce((sum, length, j) => sum + length - fades[j], 0));
+    const totalDuration = timelineLength(lengths, crossfadeSeconds);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = videos[0].videoWidth;
+    canvas.height = videos[0].videoHeight;
+    const ctx = canvas.getContext('2d')!;
+
+    const gains = videos.map(video => {
+      video.muted = false;
+      const gain = audioCtx.createGain();
+      gain.gain.value = 0;
+      audioCtx.createMediaElementSource(video).connect(gain).connect(audioDestination);
+      return gain;
+    });
+    const narration = voiceOver ? await decodeVoiceOver(audioCtx, voiceOver.audio) : null;
+    await Promise.all(videos.map((video, i) => seekTo(video, ranges[i].start)));
+
+    stream = new MediaStream([
+      ...canvas.captureStream(30).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+    const mimeType = pickRecorderMimeType(format);
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    // A context created after awaits may start suspended, and its clock drives the render
+    await audioCtx.resume();
+    recorder.start(1000);
+    // A short lead so the volume automation below is scheduled in the future
+    const startTime = audioCtx.currentTime + 0.1;
+
+    gains.forEach(({ gain }, i) => {
+      const begin = startTime + offsets[i];
+      const end = begin + lengths[i];
+      const fadeIn = i > 0 ? fades[i - 1] : 0;
+      const fadeOut = i < fades.length ? fades[i] : 0;
+      gain.setValueAtTime(0, begin);
+      gain.linearRampToValueAtTime(clipVolume, begin + fadeIn);
+      gain.setValueAtTime(clipVolume, end - fadeOut);
+      gain.linearRampToValueAtTime(0, end);
+    });
+
+    if (narration && voiceOver) {
+      const source = audioCtx.createBufferSource();
+      source.buffer = narration;
+      const gain = audioCtx.createGain();
+      gain.gain.value = voiceOver.volume;
+      source.connect(gain).connect(audioDestination);
+      const offset = Math.max(0, voiceOver.offset);
+      if (offset < totalDuration) {
+        source.start(startTime + offset);
+        source.stop(startTime + totalDuration);
+      }
+    }
+
+    const started = videos.map(() => false);
+    await new Promise<void>((resolve, reject) => {
+      const draw = () => {
+        if (signal?.aborted) {
+          reject(new DOMException('Export cancelled.', 'AbortError'));
+          return;
+        }
+        const now = audioCtx.currentTime - startTime;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        videos.forEach((video, i) => {
+          const local = now - offsets[i];
+          if (local < 0) return;
+          if (local >= lengths[i] || video.currentTime >= ranges[i].end) {
+            video.pause();
+          } else if (!started[i]) {
+            started[i] = true;
+            video.play().catch(err => console.error(err));
+          }
+          if (local < lengths[i]) {
+            // The incoming clip fades in over the outgoing one
+            const fadeIn = i > 0 ? fades[i - 1] : 0;
+            drawContained(ctx, video, fadeIn > 0 ? Math.min(1, local / fadeIn) : 1);
+          }
+        });
+
+        onProgress?.(Math.min(1, Math.max(0, now / totalDuration)));
+        if (now >= totalDuration) {
+          resolve();
+        } else {
+          requestAnimationFrame(draw);
+        }
+      };
+      requestAnimationFrame(draw);
+    }).finally(() => {
+      recorder.stop();
+    });
+
+    await stopped;
+    onProgress?.(1);
+    return new Blob(chunks, { type: mimeType.split(';')[0] || 'video/webm' });
+  } finally {
+    videos.forEach(releaseVideo);
+    stream?.getTracks().forEach(track => track.stop());
+    audioCtx.close().catch(() => {});
+  }
+}